@@ -0,0 +1,678 @@
+import dgram from "dgram";
+import net from "net";
+import { promises as fs } from "fs";
+
+import { ComputeManagementClient } from "@azure/arm-compute";
+import {
+	ClientSecretCredential,
+	ClientCertificateCredential,
+	ManagedIdentityCredential,
+	DefaultAzureCredential,
+} from "@azure/identity";
+import type { TokenCredential } from "@azure/identity";
+import { Client as SSHClient } from "ssh2";
+import winston from "winston";
+import moment from "moment";
+
+import { AzureConfig, VMConfig, WakeOnLANConfig, ComputeProviderType } from "./config";
+import { classifyPowerError, ComputeProviderError } from "./errors";
+import { Counter, Histogram } from "./metrics";
+
+const VM_POWER_STATE_DEALLOCATED = "PowerState/deallocated";
+const VM_POWER_STATE_DEALLOCATING = "PowerState/deallocating";
+const VM_POWER_STATE_RUNNING = "PowerState/running";
+const VM_POWER_STATE_STARTING = "PowerState/starting";
+const VM_POWER_STATE_STOPPED = "PowerState/stopped";
+const VM_POWER_STATE_STOPPING = "PowerState/stopping";
+
+/**
+ * The power state of a virtual machine. Values match Azure's power state codes.
+ */
+export enum VMPowerState {
+	Deallocated = "PowerState/deallocated",
+	Deallocating = "PowerState/deallocating",
+	Running = "PowerState/running",
+	Starting = "PowerState/starting",
+	Stopped = "PowerState/stopped",
+	Stopping = "PowerState/stopping",
+}
+
+/**
+ * Determine which VMPowerState a string represents.
+ * @param code The power state code.
+ * @returns Corresponding VMPowerState or undefined if there is no valid mapping.
+ */
+export function vmPowerStateFromStr(code: string): VMPowerState|undefined {
+	switch (code) {
+		case VM_POWER_STATE_DEALLOCATED:
+			return VMPowerState.Deallocated;
+			break;
+		case VM_POWER_STATE_DEALLOCATING:
+			return VMPowerState.Deallocating;
+			break;
+		case VM_POWER_STATE_RUNNING:
+			return VMPowerState.Running;
+			break;
+		case VM_POWER_STATE_STARTING:
+			return VMPowerState.Starting;
+			break;
+		case VM_POWER_STATE_STOPPED:
+			return VMPowerState.Stopped;
+			break;
+		case VM_POWER_STATE_STOPPING:
+			return VMPowerState.Stopping;
+			break;
+	}
+
+	return undefined;
+}
+
+/**
+ * Controls the power of virtual machines hosted on some platform. Methods which change the power state only begin the change, they do not wait for the virtual machine to reach the new state.
+ */
+export interface ComputeProvider {
+	/**
+	 * Ensure a virtual machine exists.
+	 * @param vmCfg The virtual machine to check.
+	 * @returns Resolves if the virtual machine exists.
+	 * @throws {Error} If the virtual machine does not exist.
+	 */
+	checkExists(vmCfg: VMConfig): Promise<void>;
+
+	/**
+	 * Get the power status of a virtual machine.
+	 * @param vmCfg The virtual machine to check.
+	 * @returns The virtual machine VMPowerState status. Returns undefined if there are no power states for the virtual machine.
+	 */
+	powerState(vmCfg: VMConfig): Promise<VMPowerState|undefined>;
+
+	/**
+	 * Start a virtual machine.
+	 * @param vmCfg The virtual machine to start.
+	 * @returns Resolves when the start has begun.
+	 */
+	start(vmCfg: VMConfig): Promise<void>;
+
+	/**
+	 * Turn off a virtual machine and release its compute resources so they are no longer billed.
+	 * @param vmCfg The virtual machine to deallocate.
+	 * @returns Resolves when the deallocation has begun.
+	 */
+	deallocate(vmCfg: VMConfig): Promise<void>;
+
+	/**
+	 * Turn off a virtual machine but keep its compute resources.
+	 * @param vmCfg The virtual machine to power off.
+	 * @returns Resolves when the power off has begun.
+	 */
+	powerOff(vmCfg: VMConfig): Promise<void>;
+}
+
+/**
+ * Create the credential used to authenticate with Azure.
+ * @param cfg Azure configuration, its credential field determines the type of credential.
+ * @returns The credential.
+ */
+export function azureCredential(cfg: AzureConfig): TokenCredential {
+	switch (cfg.credential) {
+		case "client_secret":
+			return new ClientSecretCredential(cfg.directoryID, cfg.applicationID, cfg.accessToken);
+		case "certificate":
+			return new ClientCertificateCredential(cfg.directoryID, cfg.applicationID, { certificate: cfg.certificate });
+		case "managed_identity":
+			return new ManagedIdentityCredential({ clientId: cfg.clientID });
+		case "default":
+			return new DefaultAzureCredential({ managedIdentityClientId: cfg.managedIdentityClientID });
+	}
+}
+
+/**
+ * Controls virtual machines running in Azure.
+ */
+export class AzureComputeProvider implements ComputeProvider {
+	/**
+	 * Logger.
+	 */
+	log: winston.Logger;
+
+	/**
+	 * Azure compute API client.
+	 */
+	client: ComputeManagementClient;
+
+	/**
+	 * Create a new AzureComputeProvider.
+	 * @param log Parent logger.
+	 * @param creds Azure credentials.
+	 * @param subscriptionID Azure subscription ID in which virtual machines are running.
+	 */
+	constructor(log: winston.Logger, creds: TokenCredential, subscriptionID: string) {
+		this.log = log.child({ provider: "azure" });
+		this.client = new ComputeManagementClient(creds, subscriptionID);
+	}
+
+	async checkExists(vmCfg: VMConfig): Promise<void> {
+		await this.client.virtualMachines.get(vmCfg.resourceGroup, vmCfg.azureName);
+	}
+
+	async powerState(vmCfg: VMConfig): Promise<VMPowerState|undefined> {
+		// Get status of virtual machine
+		const vmInstance = await this.client.virtualMachines.instanceView(vmCfg.resourceGroup, vmCfg.azureName);
+
+		// possible values: https://docs.microsoft.com/en-us/dotnet/api/microsoft.azure.management.compute.fluent.powerstate?view=azure-dotnet#fields
+		if (vmInstance.statuses === undefined) {
+			this.log.warn("powerState(): vm instance had no .statuses field", { vmInstance });
+			return undefined;
+		}
+
+		const powerStates = vmInstance.statuses.filter((v) => v.code.indexOf("PowerState/") !== -1);
+
+		if (powerStates.length === 0) {
+			this.log.warn("powerState(): vm instance  no PowerState/ type statuses", { vmInstance });
+			return undefined;
+		}
+
+		const code = powerStates[powerStates.length-1].code;
+		return vmPowerStateFromStr(code);
+	}
+
+	async start(vmCfg: VMConfig): Promise<void> {
+		await this.client.virtualMachines.beginStart(vmCfg.resourceGroup, vmCfg.azureName);
+	}
+
+	async deallocate(vmCfg: VMConfig): Promise<void> {
+		await this.client.virtualMachines.beginDeallocate(vmCfg.resourceGroup, vmCfg.azureName);
+	}
+
+	async powerOff(vmCfg: VMConfig): Promise<void> {
+		await this.client.virtualMachines.beginPowerOff(vmCfg.resourceGroup, vmCfg.azureName);
+	}
+}
+
+/**
+ * The state of a simulated virtual machine.
+ */
+interface SimulatedMachine {
+	/**
+	 * The current power state.
+	 */
+	power: VMPowerState;
+
+	/**
+	 * If the machine is in a non-terminal power state then this holds the terminal state it will reach and when.
+	 */
+	transition?: {
+		/**
+		 * The power state the machine is transitioning to.
+		 */
+		to: VMPowerState;
+
+		/**
+		 * Unix time in milliseconds at which the machine will reach the .to state.
+		 */
+		time: number;
+	};
+}
+
+/**
+ * Fake virtual machines which only exist in memory. Models the transitions between power states and how long they take so the bot can be run without any real virtual machines. All simulated machines start deallocated.
+ */
+export class SimulatorComputeProvider implements ComputeProvider {
+	/**
+	 * Logger.
+	 */
+	log: winston.Logger;
+
+	/**
+	 * Simulated machine states. Keys are virtual machine friendly names.
+	 */
+	machines: Map<string, SimulatedMachine>;
+
+	/**
+	 * Create a new SimulatorComputeProvider.
+	 * @param log Parent logger.
+	 */
+	constructor(log: winston.Logger) {
+		this.log = log.child({ provider: "simulator" });
+		this.machines = new Map();
+	}
+
+	/**
+	 * Get a simulated machine, creating it if it doesn't exist yet. Completes any transition which should have finished by now.
+	 * @param vmCfg The virtual machine to get.
+	 * @returns The simulated machine.
+	 */
+	machine(vmCfg: VMConfig): SimulatedMachine {
+		if (this.machines.has(vmCfg.friendlyName) === false) {
+			this.machines.set(vmCfg.friendlyName, {
+				power: VMPowerState.Deallocated,
+			});
+		}
+
+		const machine = this.machines.get(vmCfg.friendlyName);
+		if (machine.transition !== undefined && moment().valueOf() >= machine.transition.time) {
+			this.log.debug("simulated machine finished transition", { friendlyName: vmCfg.friendlyName, power: machine.transition.to });
+
+			machine.power = machine.transition.to;
+			machine.transition = undefined;
+		}
+
+		return machine;
+	}
+
+	/**
+	 * Begin moving a simulated machine to a new power state. Does nothing if the machine is already transitioning.
+	 * @param vmCfg The virtual machine to change.
+	 * @param via The non-terminal power state the machine will be in during the transition.
+	 * @param to The terminal power state the machine will reach.
+	 * @param seconds How long the transition will take.
+	 */
+	transition(vmCfg: VMConfig, via: VMPowerState, to: VMPowerState, seconds: number) {
+		const machine = this.machine(vmCfg);
+		if (machine.transition !== undefined || machine.power === to) {
+			return;
+		}
+
+		machine.power = via;
+		machine.transition = {
+			to,
+			time: moment().add(seconds, "seconds").valueOf(),
+		};
+	}
+
+	async checkExists(vmCfg: VMConfig): Promise<void> {
+		this.machine(vmCfg);
+	}
+
+	async powerState(vmCfg: VMConfig): Promise<VMPowerState|undefined> {
+		return this.machine(vmCfg).power;
+	}
+
+	async start(vmCfg: VMConfig): Promise<void> {
+		this.transition(vmCfg, VMPowerState.Starting, VMPowerState.Running, vmCfg.simulator.startSeconds);
+	}
+
+	async deallocate(vmCfg: VMConfig): Promise<void> {
+		this.transition(vmCfg, VMPowerState.Deallocating, VMPowerState.Deallocated, vmCfg.simulator.stopSeconds);
+	}
+
+	async powerOff(vmCfg: VMConfig): Promise<void> {
+		this.transition(vmCfg, VMPowerState.Stopping, VMPowerState.Stopped, vmCfg.simulator.stopSeconds);
+	}
+}
+
+/**
+ * Check if a TCP connection can be made to a host.
+ * @param host Hostname or IP address to connect to.
+ * @param port TCP port to connect to.
+ * @param timeoutMs Milliseconds to wait for the connection.
+ * @returns Resolves with true if the connection succeeded, false if it failed or timed out.
+ */
+export function tcpReachable(host: string, port: number, timeoutMs: number): Promise<boolean> {
+	return new Promise((resolve) => {
+		const socket = net.connect({ host, port });
+
+		const done = (reachable: boolean) => {
+			socket.destroy();
+			resolve(reachable);
+		};
+
+		socket.setTimeout(timeoutMs);
+		socket.once("connect", () => done(true));
+		socket.once("timeout", () => done(false));
+		socket.once("error", () => done(false));
+	});
+}
+
+/**
+ * Parse a MAC address.
+ * @param mac MAC address with octets separated by colons or dashes.
+ * @returns The 6 bytes of the MAC address.
+ * @throws {Error} If the MAC address is not formatted correctly.
+ */
+function macAddressBytes(mac: string): Buffer {
+	if (/^([0-9a-fA-F]{2}[:-]){5}[0-9a-fA-F]{2}$/.test(mac) === false) {
+		throw new Error(`MAC address "${mac}" must be formatted like "01:23:45:67:89:ab"`);
+	}
+
+	return Buffer.from(mac.replace(/[:-]/g, ""), "hex");
+}
+
+/**
+ * A power state change which a Wake-on-LAN machine was told to make.
+ */
+interface WakeOnLANTransition {
+	/**
+	 * The non-terminal power state reported while the change is taking place.
+	 */
+	via: VMPowerState;
+
+	/**
+	 * The terminal power state the machine will reach.
+	 */
+	to: VMPowerState;
+
+	/**
+	 * Unix time in milliseconds after which the change is considered to have failed.
+	 */
+	deadline: number;
+}
+
+/**
+ * Controls physical machines. Machines are turned on by sending a Wake-on-LAN magic packet and turned off by running a command via SSH. A machine is considered running if a TCP connection can be made to it.
+ */
+export class WakeOnLANComputeProvider implements ComputeProvider {
+	/**
+	 * Logger.
+	 */
+	log: winston.Logger;
+
+	/**
+	 * Power state changes which are currently taking place. Keys are virtual machine friendly names.
+	 */
+	transitions: Map<string, WakeOnLANTransition>;
+
+	/**
+	 * The terminal power state each machine was last turned off into, so that unreachable machines can report if they were deallocated or stopped. Keys are virtual machine friendly names.
+	 */
+	offStates: Map<string, VMPowerState>;
+
+	/**
+	 * Create a new WakeOnLANComputeProvider.
+	 * @param log Parent logger.
+	 */
+	constructor(log: winston.Logger) {
+		this.log = log.child({ provider: "wake_on_lan" });
+		this.transitions = new Map();
+		this.offStates = new Map();
+	}
+
+	/**
+	 * Get the Wake-on-LAN options for a virtual machine.
+	 * @param vmCfg The virtual machine.
+	 * @returns Wake-on-LAN options.
+	 * @throws {Error} If the virtual machine has no Wake-on-LAN options.
+	 */
+	opts(vmCfg: VMConfig): WakeOnLANConfig {
+		if (vmCfg.wakeOnLAN === undefined) {
+			throw new Error(`the ${vmCfg.friendlyName} server has no wakeOnLAN options`);
+		}
+
+		return vmCfg.wakeOnLAN;
+	}
+
+	/**
+	 * Record that a machine was told to change its power state.
+	 * @param vmCfg The virtual machine which is changing.
+	 * @param via The non-terminal power state the machine will be in during the change.
+	 * @param to The terminal power state the machine will reach.
+	 */
+	beginTransition(vmCfg: VMConfig, via: VMPowerState, to: VMPowerState) {
+		this.transitions.set(vmCfg.friendlyName, {
+			via,
+			to,
+			deadline: moment().add(this.opts(vmCfg).transitionTimeoutSeconds, "seconds").valueOf(),
+		});
+	}
+
+	async checkExists(vmCfg: VMConfig): Promise<void> {
+		// There is no way to check a powered off machine exists, so just ensure the configuration is valid
+		macAddressBytes(this.opts(vmCfg).macAddress);
+	}
+
+	async powerState(vmCfg: VMConfig): Promise<VMPowerState|undefined> {
+		const opts = this.opts(vmCfg);
+		const reachable = await tcpReachable(opts.host, opts.probePort, opts.probeTimeoutMs);
+
+		// Check if a power state change finished
+		const transition = this.transitions.get(vmCfg.friendlyName);
+		if (transition !== undefined) {
+			if ((transition.to === VMPowerState.Running) === reachable) {
+				this.transitions.delete(vmCfg.friendlyName);
+				if (transition.to !== VMPowerState.Running) {
+					this.offStates.set(vmCfg.friendlyName, transition.to);
+				}
+
+				return transition.to;
+			}
+
+			if (moment().valueOf() < transition.deadline) {
+				return transition.via;
+			}
+
+			this.log.warn("machine did not finish changing power state in time", { friendlyName: vmCfg.friendlyName, transition });
+			this.transitions.delete(vmCfg.friendlyName);
+		}
+
+		if (reachable === true) {
+			return VMPowerState.Running;
+		}
+
+		if (this.offStates.has(vmCfg.friendlyName) === true) {
+			return this.offStates.get(vmCfg.friendlyName);
+		}
+
+		return VMPowerState.Deallocated;
+	}
+
+	async start(vmCfg: VMConfig): Promise<void> {
+		const opts = this.opts(vmCfg);
+
+		// Magic packet is 6 bytes of 0xFF followed by the MAC address repeated 16 times
+		const mac = macAddressBytes(opts.macAddress);
+		const packet = Buffer.alloc(6 + (16 * mac.length), 0xff);
+		for (let i = 0; i < 16; i++) {
+			mac.copy(packet, 6 + (i * mac.length));
+		}
+
+		const socket = dgram.createSocket("udp4");
+		try {
+			await new Promise<void>((resolve, reject) => {
+				socket.once("error", reject);
+				socket.bind(() => {
+					socket.setBroadcast(true);
+					socket.send(packet, opts.broadcastPort, opts.broadcastAddress, (err) => {
+						if (err) {
+							reject(err);
+							return;
+						}
+
+						resolve();
+					});
+				});
+			});
+		} finally {
+			socket.close();
+		}
+
+		this.beginTransition(vmCfg, VMPowerState.Starting, VMPowerState.Running);
+	}
+
+	/**
+	 * Run the shutdown command on a machine via SSH.
+	 * @param vmCfg The virtual machine to shut down.
+	 * @returns Resolves when the command has run.
+	 * @throws {Error} If the SSH connection failed or the command exited with a non-zero code.
+	 * @throws {ComputeProviderError} If the connection and command took longer than the SSH timeout.
+	 */
+	async runShutdown(vmCfg: VMConfig): Promise<void> {
+		const opts = this.opts(vmCfg);
+		const privateKey = await fs.readFile(opts.ssh.privateKeyFile);
+
+		const conn = new SSHClient();
+		let timeout: NodeJS.Timeout|null = null;
+		try {
+			await new Promise<void>((resolve, reject) => {
+				// The machine may drop the connection while shutting down, this is not an error once the command has started
+				let cmdStarted = false;
+
+				// The client can emit errors after the promise settles, like after the connection closes, so keep handling them but only settle once
+				let settled = false;
+				const settle = (err: Error|null) => {
+					if (settled === true) {
+						return;
+					}
+					settled = true;
+
+					if (err !== null) {
+						reject(err);
+						return;
+					}
+					resolve();
+				};
+
+				// A hung connection or command would otherwise keep the power request from ever being polled again
+				timeout = setTimeout(() => {
+					const err = Object.assign(new Error(`SSH shutdown of ${opts.host} took longer than ${opts.ssh.timeoutSeconds} seconds`), { code: "ETIMEDOUT" });
+					settle(new ComputeProviderError(err));
+					conn.end();
+				}, opts.ssh.timeoutSeconds * 1000);
+				
+				conn.on("error", (err) => {
+					if (cmdStarted === true) {
+						settle(null);
+						return;
+					}
+
+					settle(err);
+				});
+				conn.on("close", () => {
+					if (cmdStarted === true) {
+						settle(null);
+						return;
+					}
+
+					settle(new Error(`SSH connection to ${opts.host} closed before the shutdown command started`));
+				});
+				conn.once("ready", () => {
+					conn.exec(opts.ssh.shutdownCommand, (err, stream) => {
+						if (err) {
+							settle(err);
+							return;
+						}
+						cmdStarted = true;
+
+						let stderr = "";
+						stream.stderr.on("data", (data) => {
+							stderr += data;
+						});
+						stream.on("data", () => {});
+						stream.on("close", (code) => {
+							if (code !== undefined && code !== null && code !== 0) {
+								settle(new Error(`shutdown command "${opts.ssh.shutdownCommand}" exited with code ${code}: ${stderr}`));
+								return;
+							}
+
+							settle(null);
+						});
+					});
+				});
+				
+				conn.connect({
+					host: opts.host,
+					port: opts.ssh.port,
+					username: opts.ssh.username,
+					privateKey,
+				});
+			});
+		} finally {
+			if (timeout !== null) {
+				clearTimeout(timeout);
+			}
+			conn.end();
+		}
+	}
+
+	async deallocate(vmCfg: VMConfig): Promise<void> {
+		await this.runShutdown(vmCfg);
+		this.beginTransition(vmCfg, VMPowerState.Deallocating, VMPowerState.Deallocated);
+	}
+
+	async powerOff(vmCfg: VMConfig): Promise<void> {
+		await this.runShutdown(vmCfg);
+		this.beginTransition(vmCfg, VMPowerState.Stopping, VMPowerState.Stopped);
+	}
+}
+
+/**
+ * Wraps a compute provider and records how long its calls take and which fail in metrics.
+ */
+export class InstrumentedComputeProvider implements ComputeProvider {
+	/**
+	 * The compute provider which does the work.
+	 */
+	provider: ComputeProvider;
+
+	/**
+	 * Type of the wrapped provider, used as the provider metric label.
+	 */
+	providerType: ComputeProviderType;
+
+	/**
+	 * Records the duration of calls in seconds.
+	 */
+	callDuration: Histogram;
+
+	/**
+	 * Counts failed calls.
+	 */
+	callErrors: Counter;
+
+	/**
+	 * Create a new InstrumentedComputeProvider.
+	 * @param provider The compute provider which does the work.
+	 * @param providerType Type of the wrapped provider.
+	 * @param callDuration Records the duration of calls in seconds, labeled by provider and operation.
+	 * @param callErrors Counts failed calls, labeled by provider, operation, and the PowerErrorKind of the error.
+	 */
+	constructor(provider: ComputeProvider, providerType: ComputeProviderType, callDuration: Histogram, callErrors: Counter) {
+		this.provider = provider;
+		this.providerType = providerType;
+		this.callDuration = callDuration;
+		this.callErrors = callErrors;
+	}
+
+	/**
+	 * Run a call of the wrapped provider and record it.
+	 * @param operation Name of the call.
+	 * @param call Calls the wrapped provider.
+	 * @returns Resolves with the call's result.
+	 * @throws {Error} If the call fails.
+	 */
+	async observe<T>(operation: string, call: () => Promise<T>): Promise<T> {
+		const start = moment().valueOf();
+
+		try {
+			return await call();
+		} catch (e) {
+			this.callErrors.inc({
+				provider: this.providerType,
+				operation,
+				kind: classifyPowerError(e).kind,
+			});
+			throw e;
+		} finally {
+			this.callDuration.observe({ provider: this.providerType, operation }, (moment().valueOf() - start) / 1000);
+		}
+	}
+
+	async checkExists(vmCfg: VMConfig): Promise<void> {
+		await this.observe("check_exists", () => this.provider.checkExists(vmCfg));
+	}
+
+	async powerState(vmCfg: VMConfig): Promise<VMPowerState|undefined> {
+		return await this.observe("power_state", () => this.provider.powerState(vmCfg));
+	}
+
+	async start(vmCfg: VMConfig): Promise<void> {
+		await this.observe("start", () => this.provider.start(vmCfg));
+	}
+
+	async deallocate(vmCfg: VMConfig): Promise<void> {
+		await this.observe("deallocate", () => this.provider.deallocate(vmCfg));
+	}
+
+	async powerOff(vmCfg: VMConfig): Promise<void> {
+		await this.observe("power_off", () => this.provider.powerOff(vmCfg));
+	}
+}
@@ -3,100 +3,679 @@ import { promises as fs } from "fs";
 import { z } from "zod";
 import json5 from "json5";
 
+/**
+ * The maximum number of virtual machines, as Discord slash command options can have at most 25 choices.
+ */
+const MAX_VMS = 25;
+
+/**
+ * ID of a Discord user, role, channel, guild, or application. Discord IDs are snowflakes: numbers with 17 to 20 digits, stored as strings.
+ */
+const CSnowflake = z.string().superRefine((id, ctx) => {
+	if (id.length === 0) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: "must not be empty",
+		});
+	} else if (/^[0-9]{17,20}$/.test(id) === false) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: "must be a Discord ID, which is a number like 123456789012345678",
+		});
+	}
+});
+
+/**
+ * A sensitive configuration value, like a password or token. Can be written directly as a string, or read from an environment variable with { "env": "NAME" }, or read from a file with { "file": "/path" }, like a Docker secret. Trailing whitespace is removed from values read from files.
+ */
+export const CSecret = z.union([
+	z.string(),
+	z.object({
+		/**
+		 * Name of the environment variable which holds the value.
+		 */
+		env: z.string(),
+	}).strict(),
+	z.object({
+		/**
+		 * Path of the file which holds the value.
+		 */
+		file: z.string(),
+	}).strict(),
+]).transform(async (value, ctx) => {
+	if (typeof value === "string") {
+		return value;
+	}
+
+	const ref: { env?: string, file?: string } = value;
+	if (ref.env !== undefined) {
+		const envValue = process.env[ref.env];
+		if (envValue === undefined) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: `environment variable ${ref.env} is not set`,
+			});
+			return z.NEVER;
+		}
+
+		return envValue;
+	}
+
+	try {
+		const fileContents = await fs.readFile(ref.file);
+		return fileContents.toString().replace(/\s+$/, "");
+	} catch (e) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: `could not read file ${ref.file}: ${e.message}`,
+		});
+		return z.NEVER;
+	}
+});
+
+/**
+ * The platforms which can host virtual machines.
+ */
+export const CComputeProviderType = z.enum([
+	/**
+	 * Virtual machines in Azure.
+	 */
+	"azure",
+
+	/**
+	 * Fake in-memory virtual machines, useful for development.
+	 */
+	"simulator",
+
+	/**
+	 * Physical machines which are turned on via Wake-on-LAN and turned off via SSH.
+	 */
+	"wake_on_lan",
+]);
+export type ComputeProviderType = z.infer<typeof CComputeProviderType>;
+
+/**
+ * Options for simulated virtual machines.
+ */
+export const CSimulatorConfig = z.object({
+	/**
+	 * The number of seconds the simulated virtual machine takes to start.
+	 */
+	startSeconds: z.number().nonnegative().default(30),
+
+	/**
+	 * The number of seconds the simulated virtual machine takes to stop or deallocate.
+	 */
+	stopSeconds: z.number().nonnegative().default(15),
+});
+export type SimulatorConfig = z.infer<typeof CSimulatorConfig>;
+
+/**
+ * Options for physical machines which are turned on via Wake-on-LAN and turned off via SSH.
+ */
+export const CWakeOnLANConfig = z.object({
+	/**
+	 * MAC address of the machine's network interface, used to address the Wake-on-LAN magic packet. Octets can be separated by colons or dashes.
+	 */
+	macAddress: z.string(),
+
+	/**
+	 * The address to which the Wake-on-LAN magic packet will be sent.
+	 */
+	broadcastAddress: z.string().default("255.255.255.255"),
+
+	/**
+	 * The UDP port to which the Wake-on-LAN magic packet will be sent.
+	 */
+	broadcastPort: z.number().int().default(9),
+
+	/**
+	 * Hostname or IP address of the machine. Used to check if the machine is on and to connect via SSH.
+	 */
+	host: z.string(),
+
+	/**
+	 * TCP port which is probed to determine if the machine is on. If a connection can be made the machine is considered running.
+	 */
+	probePort: z.number().int().default(22),
+
+	/**
+	 * Milliseconds to wait for the probe connection before considering the machine off.
+	 */
+	probeTimeoutMs: z.number().positive().default(2000),
+
+	/**
+	 * The number of seconds the machine can take to start or shut down. After this the machine will be considered to be in its previous state, and the power request will try again.
+	 */
+	transitionTimeoutSeconds: z.number().positive().default(300),
+
+	/**
+	 * SSH connection used to shut down the machine.
+	 */
+	ssh: z.object({
+		/**
+		 * SSH server port.
+		 */
+		port: z.number().int().default(22),
+
+		/**
+		 * User to login as.
+		 */
+		username: z.string(),
+
+		/**
+		 * Path to the private key file used to login.
+		 */
+		privateKeyFile: z.string(),
+
+		/**
+		 * Command run to shut down the machine.
+		 */
+		shutdownCommand: z.string().default("sudo shutdown -h now"),
+
+		/**
+		 * Seconds to wait for the SSH connection and shutdown command to finish before giving up. The power request tries again after this.
+		 */
+		timeoutSeconds: z.number().positive().default(60),
+	}),
+});
+export type WakeOnLANConfig = z.infer<typeof CWakeOnLANConfig>;
+
+/**
+ * Options shared by all ways of contacting a game server.
+ */
+const CGameServerBase = z.object({
+	/**
+	 * Hostname or IP address of the game server.
+	 */
+	host: z.string(),
+
+	/**
+	 * Milliseconds to wait for the game server to respond.
+	 */
+	timeoutMs: z.number().positive().default(3000),
+});
+
+/**
+ * Query a Minecraft server using the server list ping protocol.
+ */
+const CMinecraftQueryConfig = CGameServerBase.extend({
+	type: z.literal("minecraft"),
+	port: z.number().int().default(25565),
+});
+
+/**
+ * Query a Source / Steam server using the A2S_INFO protocol.
+ */
+const CSourceQueryConfig = CGameServerBase.extend({
+	type: z.literal("source"),
+	port: z.number().int().default(27015),
+});
+
+/**
+ * Retrieves information about the players on a game server.
+ */
+export const CGameQueryConfig = z.discriminatedUnion("type", [
+	CMinecraftQueryConfig,
+	CSourceQueryConfig,
+]);
+export type GameQueryConfig = z.infer<typeof CGameQueryConfig>;
+
+/**
+ * Checks if the game running on a virtual machine is ready for players to connect. The "tcp" type is ready when a TCP connection can be made to port, the "minecraft" and "source" types are ready when a game query succeeds.
+ */
+export const CReadinessProbeConfig = z.discriminatedUnion("type", [
+	CGameServerBase.extend({
+		type: z.literal("tcp"),
+		port: z.number().int(),
+	}),
+	CMinecraftQueryConfig,
+	CSourceQueryConfig,
+]);
+export type ReadinessProbeConfig = z.infer<typeof CReadinessProbeConfig>;
+
+/**
+ * Shuts down a virtual machine started via the boot command once no one has played on it for a while.
+ */
+export const CIdleShutdownConfig = z.object({
+	/**
+	 * How to find the number of players on the game server.
+	 */
+	query: CGameQueryConfig,
+
+	/**
+	 * The number of minutes the game server must have no players before the virtual machine is shut down.
+	 */
+	idleMinutes: z.number().positive().default(30),
+});
+export type IdleShutdownConfig = z.infer<typeof CIdleShutdownConfig>;
+
+/**
+ * Time of day in the 24 hour HH:mm format.
+ */
+const CTimeOfDay = z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, "must be a 24 hour HH:mm time");
+
+/**
+ * A period of time during which a virtual machine cannot be booted. Times are in the bot's local time zone.
+ */
+export const CQuietHoursWindow = z.object({
+	/**
+	 * Time of day when quiet hours begin.
+	 */
+	start: CTimeOfDay,
+
+	/**
+	 * Time of day when quiet hours end. If this is before start then quiet hours end on the next day.
+	 */
+	end: CTimeOfDay,
+
+	/**
+	 * Days of the week on which quiet hours begin, 0 is Sunday and 6 is Saturday.
+	 */
+	days: z.array(z.number().int().min(0).max(6)).default([ 0, 1, 2, 3, 4, 5, 6 ]),
+});
+export type QuietHoursWindow = z.infer<typeof CQuietHoursWindow>;
+
+/**
+ * Users which are allowed to perform an action. A user is allowed if they are in userIDs or have any of the roles in roleIDs.
+ */
+export const CPermissionRule = z.object({
+	/**
+	 * IDs of Discord roles which are allowed.
+	 */
+	roleIDs: z.array(CSnowflake).default([]),
+
+	/**
+	 * IDs of Discord users which are allowed.
+	 */
+	userIDs: z.array(CSnowflake).default([]),
+});
+export type PermissionRule = z.infer<typeof CPermissionRule>;
+
+/**
+ * Actions which can be restricted by a virtual machine's permissions.
+ */
+export const CPermissionsConfig = z.object({
+	/**
+	 * Who can start the virtual machine.
+	 */
+	boot: z.optional(CPermissionRule),
+
+	/**
+	 * Who can shut down the virtual machine.
+	 */
+	shutdown: z.optional(CPermissionRule),
+
+	/**
+	 * Who can perform any other actions on the virtual machine, like extending its session.
+	 */
+	other: z.optional(CPermissionRule),
+
+	/**
+	 * Who can lock and unlock the virtual machine. If undefined no one can.
+	 */
+	admin: z.optional(CPermissionRule),
+});
+export type PermissionsConfig = z.infer<typeof CPermissionsConfig>;
+export type PermissionAction = keyof PermissionsConfig;
+
+/**
+ * How long power changes to a virtual machine can take before the bot gives up waiting on them.
+ */
+export const CPowerTimeoutsConfig = z.object({
+	/**
+	 * The number of minutes the virtual machine can take to start, including waiting for any readinessProbe to succeed.
+	 */
+	startMinutes: z.number().positive().default(20),
+
+	/**
+	 * The number of minutes the virtual machine can take to shut down and deallocate.
+	 */
+	shutdownMinutes: z.number().positive().default(15),
+
+	/**
+	 * The number of minutes the virtual machine can take to power off without deallocating.
+	 */
+	powerOffMinutes: z.number().positive().default(15),
+
+	/**
+	 * IDs of Discord roles to mention when a power change times out.
+	 */
+	mentionRoleIDs: z.array(CSnowflake).default([]),
+
+	/**
+	 * IDs of Discord users to mention when a power change times out.
+	 */
+	mentionUserIDs: z.array(CSnowflake).default([]),
+});
+export type PowerTimeoutsConfig = z.infer<typeof CPowerTimeoutsConfig>;
+
 /**
  * Virtual machine details.
  */
 export const CVMConfig = z.object({
 	/**
-	 * The name of the Azure resource group in which this virtual machine exists.
+	 * The platform which hosts this virtual machine.
+	 */
+	provider: CComputeProviderType.default("azure"),
+
+	/**
+	 * The name of the Azure resource group in which this virtual machine exists. Required if provider is "azure".
+	 */
+	resourceGroup: z.optional(z.string()),
+
+	/**
+	 * The name of the virtual machine in Azure. Required if provider is "azure".
+	 */
+	azureName: z.optional(z.string()),
+
+	/**
+	 * Options for the simulated virtual machine if provider is "simulator".
+	 */
+	simulator: CSimulatorConfig.default({}),
+
+	/**
+	 * Options for the physical machine if provider is "wake_on_lan".
+	 */
+	wakeOnLAN: z.optional(CWakeOnLANConfig),
+
+	/**
+	 * If provided then after the virtual machine starts the bot will wait until this probe succeeds before telling users the server is ready.
 	 */
-	resourceGroup: z.string(),
+	readinessProbe: z.optional(CReadinessProbeConfig),
 
 	/**
-	 * The name of the virtual machine in Azure.
+	 * If provided then when the server was started via the boot command it will be shut down after no one has played on it for a while.
 	 */
-	azureName: z.string(),
+	idleShutdown: z.optional(CIdleShutdownConfig),
 
 	/**
 	 * The name which users will see and use to refer to your virtual machine. This must be unique. Try not to include words like "server" as the messages generated for users includes specifiers like this already.
 	 */
-	friendlyName: z.string(),
+	friendlyName: z.string().min(1, "must not be empty"),
+
+	/**
+	 * Restricts who can perform each action on this virtual machine. If an action has no rule then users must have the discord.permissionRoleID role instead.
+	 */
+	permissions: CPermissionsConfig.default({}),
+
+	/**
+	 * How much the virtual machine costs per hour while it is running, in the currency of cost.currencySymbol. Used to estimate costs.
+	 */
+	hourlyCost: z.number().nonnegative().default(0),
+
+	/**
+	 * How long starting and stopping the virtual machine can take before the bot stops waiting and tells users something went wrong.
+	 */
+	timeouts: CPowerTimeoutsConfig.default({}),
+
+	/**
+	 * The number of minutes a server started via the boot command will run before it is automatically shut down.
+	 */
+	sessionLengthMinutes: z.number().positive().default(240),
+
+	/**
+	 * The maximum number of minutes a server started via the boot command can run, including any extensions made via the extend command.
+	 */
+	maxSessionLengthMinutes: z.number().positive().default(720),
+
+	/**
+	 * IDs of Discord voice channels in which people playing on this server hang out. If the server was started via the boot command and all these channels are empty for voiceEmptyGraceMinutes then the server will be automatically shut down. Leave empty to disable this behavior.
+	 */
+	voiceChannelIDs: z.array(CSnowflake).default([]),
+
+	/**
+	 * The number of minutes all the voiceChannelIDs must be empty before the server is shut down.
+	 */
+	voiceEmptyGraceMinutes: z.number().positive().default(10),
+
+	/**
+	 * Periods during which the server cannot be booted. If the server is running when quiet hours begin users are warned and then it is shut down.
+	 */
+	quietHours: z.array(CQuietHoursWindow).default([]),
+}).superRefine((vm, ctx) => {
+	if (vm.provider === "azure") {
+		for (const field of [ "resourceGroup", "azureName" ]) {
+			if (vm[field] === undefined) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: [ field ],
+					message: `required when provider is "azure"`,
+				});
+			}
+		}
+	}
+
+	if (vm.provider === "wake_on_lan" && vm.wakeOnLAN === undefined) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: [ "wakeOnLAN" ],
+			message: `required when provider is "wake_on_lan"`,
+		});
+	}
 });
 export type VMConfig = z.infer<typeof CVMConfig>;
 
 /**
- * Configures bot.
+ * Fields used by all ways of authenticating with Azure.
  */
-export const CBotConfig = z.object({
+const CAzureBase = z.object({
+	/**
+	 * Azure subscription ID in which virtual machines are running.
+	 */
+	subscriptionID: z.string(),
+});
+
+/**
+ * Azure client information. The credential field chooses how the bot authenticates with Azure, it defaults to "client_secret" so configurations written before it existed still work.
+ */
+export const CAzureConfig = z.preprocess((value) => {
+	if (value !== null && typeof value === "object" && !("credential" in value)) {
+		return { ...value, credential: "client_secret" };
+	}
+
+	return value;
+}, z.discriminatedUnion("credential", [
 	/**
-	 * Azure client information.
+	 * Authenticate as an Azure Active Directory application using a client secret.
 	 */
-	azure: z.object({
+	CAzureBase.extend({
+		credential: z.literal("client_secret"),
+
+		/**
+		 * Azure directory ID.
+		 */
+		directoryID: z.string(),
+
 		/**
-	 	 * Azure subscription ID in which virtual machines are running.
-	 	 */
-		subscriptionID: z.string(),
+		 * Azure application ID.
+		 */
+		applicationID: z.string(),
 
 		/**
-	   	 * Azure directory ID.
-	     */
+		 * Azure access token, the application's client secret.
+		 */
+		accessToken: CSecret,
+	}),
+
+	/**
+	 * Authenticate as an Azure Active Directory application using a certificate.
+	 */
+	CAzureBase.extend({
+		credential: z.literal("certificate"),
+
+		/**
+		 * Azure directory ID.
+		 */
 		directoryID: z.string(),
 
 		/**
-	   	 * Azure application ID.
-	     */
+		 * Azure application ID.
+		 */
 		applicationID: z.string(),
 
 		/**
-		 * Azure access token.
+		 * PEM encoded certificate and private key. Usually read from a file, like { "file": "/run/secrets/azure.pem" }.
+		 */
+		certificate: CSecret,
+	}),
+
+	/**
+	 * Authenticate using the managed identity of the Azure resource the bot is running on.
+	 */
+	CAzureBase.extend({
+		credential: z.literal("managed_identity"),
+
+		/**
+		 * Client ID of a user assigned managed identity. If not provided the system assigned managed identity is used.
 		 */
-		accessToken: z.string(),
+		clientID: z.optional(z.string()),
 	}),
 
 	/**
-	 * MongoDB information.
+	 * Authenticate using the first credential which works out of environment variables, managed identity, and the Azure CLI's login.
 	 */
-	mongodb: z.object({
+	CAzureBase.extend({
+		credential: z.literal("default"),
+
+		/**
+		 * Client ID of a user assigned managed identity, used if the managed identity credential is reached.
+		 */
+		managedIdentityClientID: z.optional(z.string()),
+	}),
+]));
+export type AzureConfig = z.infer<typeof CAzureConfig>;
+
+/**
+ * Configures bot.
+ */
+export const CBotConfig = z.object({
+	/**
+	 * Azure client information. Required if any virtual machines use the "azure" provider.
+	 */
+	azure: z.optional(CAzureConfig),
+
+	/**
+	 * Which database the bot stores its data in. Either "mongodb" or "sqlite".
+	 */
+	storage: z.enum([ "mongodb", "sqlite" ]).default("mongodb"),
+
+	/**
+	 * MongoDB information. Required if storage is "mongodb".
+	 */
+	mongodb: z.optional(z.object({
 		/**
 		 * A mongodb:// connection URI. 
 		 */
-		connectionURI: z.string(),
+		connectionURI: CSecret,
 
 		/**
 		 * Name of database in which to store bot data.
 		 */
 		dbName: z.string(),
-	}),
+	})),
+
+	/**
+	 * SQLite information. Required if storage is "sqlite".
+	 */
+	sqlite: z.optional(z.object({
+		/**
+		 * Path to the SQLite database file. Will be created if it does not exist.
+		 */
+		file: z.string(),
+	})),
 
 	/**
 	 * Discord API client information.
 	 */
 	discord: z.object({
 		/**
-		 * If provided the command will be limited to a single Discord server. Set to null if a global command should be created.
+		 * If provided the command will be limited to a single Discord server. Leave out if a global command should be created.
 		 */
-		guildID: z.optional(z.string()),
+		guildID: z.optional(CSnowflake),
 
 		/**
 		 * Discord API application ID.
 		 */
-		applicationID: z.string(),
+		applicationID: CSnowflake,
 
 		/**
-		 * ID of the Discord role which users must have in order to utilize the bot. Currently set to the berry boy role.
+		 * ID of the Discord role which users must have in order to utilize the bot. Used for any action which a virtual machine's permissions don't have a rule for.
 		 */
-		permissionRoleID: z.optional(z.string()),
+		permissionRoleID: z.optional(CSnowflake),
 
 		/**
 		 * Discord API application bot authentication token.
 		 */
-		botToken: z.string(),
+		botToken: CSecret,
 	}),
 
 	/**
-	 * Define the Azure virtual machines which the bot is allowed to manage. Array of objects which specify vm details.
+	 * Cost estimation settings.
 	 */
-	vms: z.array(CVMConfig),
+	cost: z.object({
+		/**
+		 * Symbol shown before costs.
+		 */
+		currencySymbol: z.string().default("$"),
+
+		/**
+		 * If provided then the boot command will refuse to start virtual machines if the estimated cost of their session would cause the total cost of all virtual machines this month to exceed this amount.
+		 */
+		monthlyBudget: z.optional(z.number().positive()),
+	}).default({}),
+
+	/**
+	 * If provided the bot runs an HTTP server which serves health checks at /healthz and Prometheus metrics at /metrics.
+	 */
+	http: z.optional(z.object({
+		/**
+		 * Port on which the HTTP server listens.
+		 */
+		port: z.number().int().min(1).max(65535).default(9090),
+
+		/**
+		 * Address on which the HTTP server listens. The server has no authentication, only listen on other addresses if access to them is restricted.
+		 */
+		host: z.string().default("127.0.0.1"),
+
+		/**
+		 * The number of seconds since the last successful poll of ongoing requests after which /healthz reports the bot as unhealthy. Only checked on the instance which holds the poll lease.
+		 */
+		maxPollAgeSeconds: z.number().positive().default(60),
+	})),
+
+	/**
+	 * Define the virtual machines which the bot is allowed to manage. Array of objects which specify vm details.
+	 */
+	vms: z.array(CVMConfig).max(MAX_VMS, `must have at most ${MAX_VMS} virtual machines, as Discord slash command options can have at most ${MAX_VMS} choices`),
+}).superRefine((cfg, ctx) => {
+	if (cfg[cfg.storage] === undefined) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: [ cfg.storage ],
+			message: `required when storage is "${cfg.storage}"`,
+		});
+	}
+	
+	if (cfg.azure === undefined && cfg.vms.some((vm) => vm.provider === "azure")) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: [ "azure" ],
+			message: `required when any virtual machines use the "azure" provider`,
+		});
+	}
+
+	cfg.vms.forEach((vm, i) => {
+		const firstIndex = cfg.vms.findIndex((other) => other.friendlyName === vm.friendlyName);
+		if (firstIndex !== i) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: [ "vms", i, "friendlyName" ],
+				message: `must be unique, "${vm.friendlyName}" is already used by vms[${firstIndex}]`,
+			});
+		}
+	});
 });
 export type BotConfig = z.infer<typeof CBotConfig>;
 
@@ -120,9 +699,25 @@ export function vmCfgByFriendlyName(cfg: BotConfig, name: string): VMConfig {
 	return vmSearch[0];
 }
 
+/**
+ * Describe the problems found while validating a configuration.
+ * @param e The validation error.
+ * @returns A line for each problem, starting with the JSON path of the field which has the problem, like "$.vms[0].friendlyName: must not be empty".
+ */
+export function configIssues(e: z.ZodError): string[] {
+	return e.issues.map((issue) => {
+		const path = issue.path
+			.map((part) => typeof part === "number" ? `[${part}]` : `.${part}`)
+			.join("");
+
+		return `$${path}: ${issue.message}`;
+	});
+}
+
 /**
  * Load the BotConfig from a JSON file.
  * @argument path Path to JSON file to load
+ * @throws {z.ZodError} If the configuration is invalid.
  */
 export async function loadConfig(path: string): Promise<BotConfig> {
 	const fileContents = await fs.readFile(path);
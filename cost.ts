@@ -0,0 +1,97 @@
+import { BotConfig, VMConfig } from "./config";
+import { VMPowerState } from "./compute";
+import { PowerRequestData, PowerRequestRepo } from "./storage";
+
+/**
+ * A period of time during which a virtual machine was running.
+ */
+export interface RunningInterval {
+	/**
+	 * Unix time in milliseconds when the virtual machine started running.
+	 */
+	start: number;
+
+	/**
+	 * Unix time in milliseconds when the virtual machine stopped running.
+	 */
+	end: number;
+}
+
+/**
+ * How much a virtual machine ran during a time range.
+ */
+export interface VMUsage {
+	/**
+	 * The number of hours the virtual machine was running.
+	 */
+	hours: number;
+
+	/**
+	 * The estimated cost of the virtual machine running for hours.
+	 */
+	cost: number;
+}
+
+/**
+ * Build the intervals during which a virtual machine was running from the times its power requests succeeded.
+ * @param before The last power request which succeeded before start, or null if there is none. Used to determine if the virtual machine was already running at start.
+ * @param successes Power requests which succeeded between start and end, oldest first.
+ * @param start Unix time in milliseconds at which to start the intervals.
+ * @param end Unix time in milliseconds at which to end the intervals. Any virtual machine still running at this time has its last interval cut off here.
+ * @returns The running intervals, oldest first.
+ */
+export function runningIntervals(before: PowerRequestData|null, successes: PowerRequestData[], start: number, end: number): RunningInterval[] {
+	const intervals = [];
+	let runningSince = before !== null && before.target_power === VMPowerState.Running ? start : null;
+
+	successes.forEach((data) => {
+		const time = data.stage.success.time;
+
+		if (data.target_power === VMPowerState.Running) {
+			if (runningSince === null) {
+				runningSince = time;
+			}
+		} else if (runningSince !== null) {
+			intervals.push({ start: runningSince, end: time });
+			runningSince = null;
+		}
+	});
+
+	if (runningSince !== null && runningSince < end) {
+		intervals.push({ start: runningSince, end });
+	}
+
+	return intervals;
+}
+
+/**
+ * Determine how much a virtual machine ran during a time range, based on the power requests which started and stopped it.
+ * @param powerRequests Power request storage.
+ * @param vmCfg The virtual machine.
+ * @param start Unix time in milliseconds of the start of the range.
+ * @param end Unix time in milliseconds of the end of the range. Should not be in the future, as virtual machines which are still running are counted as running until end.
+ * @returns Resolves with the virtual machine's usage.
+ */
+export async function vmUsage(powerRequests: PowerRequestRepo, vmCfg: VMConfig, start: number, end: number): Promise<VMUsage> {
+	const before = await powerRequests.findLastSuccessBefore(vmCfg.friendlyName, start);
+	const successes = await powerRequests.listSuccessesBetween(vmCfg.friendlyName, start, end);
+
+	const runningMs = runningIntervals(before, successes, start, end)
+		.reduce((total, interval) => total + (interval.end - interval.start), 0);
+	const hours = runningMs / (1000 * 60 * 60);
+
+	return {
+		hours,
+		cost: hours * vmCfg.hourlyCost,
+	};
+}
+
+/**
+ * Format a cost for display to users.
+ * @param cfg Bot configuration, used for its currency symbol.
+ * @param amount The cost.
+ * @returns The cost with its currency symbol, to 2 decimal places.
+ */
+export function formatCost(cfg: BotConfig, amount: number): string {
+	return `${cfg.cost.currencySymbol}${amount.toFixed(2)}`;
+}
@@ -0,0 +1,244 @@
+/**
+ * Categories of errors which can happen while changing a virtual machine's power state.
+ */
+export enum PowerErrorKind {
+	/**
+	 * A temporary problem, like throttling, a server error, or a network error. Worth retrying.
+	 */
+	Transient = "transient",
+
+	/**
+	 * The virtual machine does not exist.
+	 */
+	VMNotFound = "vm_not_found",
+
+	/**
+	 * The bot's credentials are not allowed to control the virtual machine.
+	 */
+	PermissionDenied = "permission_denied",
+
+	/**
+	 * The cloud provider's quota for the virtual machine's size or region has been used up.
+	 */
+	QuotaExceeded = "quota_exceeded",
+
+	/**
+	 * The cloud provider does not have capacity to run the virtual machine right now.
+	 */
+	AllocationFailed = "allocation_failed",
+
+	/**
+	 * Any other error.
+	 */
+	Unknown = "unknown",
+}
+
+/**
+ * Serializable details about an error, for storing in the database. Not to be shown to users.
+ */
+export interface PowerErrorRecord {
+	/**
+	 * Category of the error.
+	 */
+	kind: PowerErrorKind;
+
+	/**
+	 * Name of the error class.
+	 */
+	name: string;
+
+	/**
+	 * Error message.
+	 */
+	message: string;
+
+	/**
+	 * Error code reported by the API or operating system, like "AuthorizationFailed" or "ECONNRESET".
+	 */
+	code: string|null;
+
+	/**
+	 * HTTP status code of the failed API response, if the error came from an API.
+	 */
+	status_code: number|null;
+
+	/**
+	 * Stack trace.
+	 */
+	stack: string|null;
+}
+
+/**
+ * Error codes from Node's network stack which indicate a temporary problem.
+ */
+const NETWORK_ERROR_CODES = [
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ECONNABORTED",
+	"ETIMEDOUT",
+	"EHOSTUNREACH",
+	"ENETUNREACH",
+	"ENOTFOUND",
+	"EAI_AGAIN",
+	"EPIPE",
+	"REQUEST_SEND_ERROR",
+];
+
+/**
+ * Azure error codes for each kind of permanent error.
+ */
+const AZURE_ERROR_CODES: { [kind: string]: string[] } = {
+	[PowerErrorKind.VMNotFound]: [
+		"ResourceNotFound",
+		"ResourceGroupNotFound",
+		"NotFound",
+	],
+	[PowerErrorKind.PermissionDenied]: [
+		"AuthorizationFailed",
+		"AuthenticationFailed",
+		"InvalidAuthenticationToken",
+		"LinkedAuthorizationFailed",
+	],
+	[PowerErrorKind.QuotaExceeded]: [
+		"QuotaExceeded",
+	],
+	[PowerErrorKind.AllocationFailed]: [
+		"AllocationFailed",
+		"ZonalAllocationFailed",
+		"OverconstrainedAllocationRequest",
+		"OverconstrainedZonalAllocationRequest",
+		"SkuNotAvailable",
+	],
+};
+
+/**
+ * Azure error code used both when a quota would be exceeded and when the virtual machine is busy with a conflicting operation.
+ */
+const AZURE_OPERATION_NOT_ALLOWED_CODE = "OperationNotAllowed";
+
+/**
+ * Determine which kind of error occurred.
+ * @param code Error code, or null if there is none.
+ * @param statusCode HTTP status code, or null if there is none.
+ * @param name Error class name.
+ * @param message Error message.
+ * @returns The kind of error.
+ */
+function errorKind(code: string|null, statusCode: number|null, name: string, message: string): PowerErrorKind {
+	for (const kind of Object.keys(AZURE_ERROR_CODES)) {
+		if (code !== null && AZURE_ERROR_CODES[kind].indexOf(code) !== -1) {
+			return kind as PowerErrorKind;
+		}
+	}
+
+	// Only a quota problem if the message says so, otherwise it is usually another operation which will finish soon
+	if (code === AZURE_OPERATION_NOT_ALLOWED_CODE) {
+		const lowerMessage = message.toLowerCase();
+		if (lowerMessage.indexOf("quota") !== -1 || lowerMessage.indexOf("cores") !== -1) {
+			return PowerErrorKind.QuotaExceeded;
+		}
+
+		return PowerErrorKind.Transient;
+	}
+
+	if (code !== null && NETWORK_ERROR_CODES.indexOf(code) !== -1) {
+		return PowerErrorKind.Transient;
+	}
+
+	if (statusCode !== null) {
+		if (statusCode === 408 || statusCode === 429 || statusCode >= 500) {
+			return PowerErrorKind.Transient;
+		}
+
+		if (statusCode === 401 || statusCode === 403) {
+			return PowerErrorKind.PermissionDenied;
+		}
+
+		if (statusCode === 404) {
+			return PowerErrorKind.VMNotFound;
+		}
+	}
+
+	// Azure credential errors and SSH login failures
+	if (name === "AuthenticationError" || name === "CredentialUnavailableError" || message.indexOf("authentication methods failed") !== -1) {
+		return PowerErrorKind.PermissionDenied;
+	}
+
+	if (message.toLowerCase().indexOf("quota") !== -1) {
+		return PowerErrorKind.QuotaExceeded;
+	}
+
+	return PowerErrorKind.Unknown;
+}
+
+/**
+ * Thrown when a compute provider call fails. Wraps the provider's error so it can be told apart from other failures, like Discord or database errors, which say nothing about the virtual machine.
+ */
+export class ComputeProviderError extends Error {
+	/**
+	 * The error thrown by the compute provider.
+	 */
+	cause: unknown;
+
+	/**
+	 * Create a new ComputeProviderError.
+	 * @param cause The error thrown by the compute provider.
+	 */
+	constructor(cause: unknown) {
+		super(`compute provider call failed: ${cause}`);
+		this.name = "ComputeProviderError";
+		this.cause = cause;
+	}
+}
+
+/**
+ * Classify an error thrown while changing a virtual machine's power state and record its details.
+ * @param e The thrown value.
+ * @returns Serializable details about the error.
+ */
+export function classifyPowerError(e: unknown): PowerErrorRecord {
+	// Classify what the compute provider threw, not the wrapper
+	if (e instanceof ComputeProviderError) {
+		return classifyPowerError(e.cause);
+	}
+
+	const fields: { [key: string]: unknown } = e !== null && typeof e === "object" ? e as { [key: string]: unknown } : {};
+
+	const name = typeof fields.name === "string" ? fields.name : "Error";
+	const message = typeof fields.message === "string" ? fields.message : String(e);
+	const code = typeof fields.code === "string" ? fields.code : null;
+	const statusCode = typeof fields.statusCode === "number" ? fields.statusCode : null;
+	const stack = typeof fields.stack === "string" ? fields.stack : null;
+
+	return {
+		kind: errorKind(code, statusCode, name, message),
+		name,
+		message,
+		code,
+		status_code: statusCode,
+		stack,
+	};
+}
+
+/**
+ * Build a message which explains an error to users and what they can do about it.
+ * @param kind The kind of error.
+ * @param vmName Friendly name of the virtual machine.
+ * @returns User friendly error message, which fits into a sentence like "Sorry, <message>.".
+ */
+export function powerErrorUserMessage(kind: PowerErrorKind, vmName: string): string {
+	switch (kind) {
+		case PowerErrorKind.Transient:
+			return `the ${vmName} server's cloud provider kept failing to respond. Please try again in a few minutes`;
+		case PowerErrorKind.VMNotFound:
+			return `the ${vmName} server's virtual machine could not be found. An admin needs to check the bot's configuration`;
+		case PowerErrorKind.PermissionDenied:
+			return `the bot is not allowed to control the ${vmName} server's virtual machine. An admin needs to check the bot's credentials and role assignments`;
+		case PowerErrorKind.QuotaExceeded:
+			return `the quota for the ${vmName} server's virtual machine size has been used up. An admin needs to stop other virtual machines or request a quota increase`;
+		case PowerErrorKind.AllocationFailed:
+			return `the cloud provider doesn't have room to run the ${vmName} server right now. Please try again in a few minutes`;
+		case PowerErrorKind.Unknown:
+			return "an unexpected error occurred";
+	}
+}
@@ -0,0 +1,250 @@
+import dgram from "dgram";
+import net from "net";
+
+import { ReadinessProbeConfig, GameQueryConfig } from "./config";
+import { tcpReachable } from "./compute";
+
+/**
+ * Information about a game server returned by a game query protocol.
+ */
+export interface GameServerInfo {
+	/**
+	 * The number of players currently connected.
+	 */
+	players: number;
+
+	/**
+	 * The maximum number of players which can connect.
+	 */
+	maxPlayers: number;
+}
+
+/**
+ * Encode a number as a Minecraft protocol VarInt.
+ * @param value The number to encode.
+ * @returns The encoded bytes.
+ */
+function mcVarInt(value: number): Buffer {
+	const bytes = [];
+	let remaining = value >>> 0;
+
+	do {
+		let byte = remaining & 0x7f;
+		remaining >>>= 7;
+		if (remaining !== 0) {
+			byte |= 0x80;
+		}
+		bytes.push(byte);
+	} while (remaining !== 0);
+
+	return Buffer.from(bytes);
+}
+
+/**
+ * Decode a Minecraft protocol VarInt.
+ * @param buf Buffer to read from.
+ * @param offset Index in buf at which the VarInt starts.
+ * @returns The decoded value and the number of bytes it took up. Returns undefined if buf does not yet contain the whole VarInt.
+ * @throws {Error} If the VarInt is longer than 5 bytes.
+ */
+function mcReadVarInt(buf: Buffer, offset: number): { value: number, size: number }|undefined {
+	let value = 0;
+
+	for (let i = 0; i < 5; i++) {
+		if (offset + i >= buf.length) {
+			return undefined;
+		}
+
+		const byte = buf[offset + i];
+		value |= (byte & 0x7f) << (7 * i);
+		if ((byte & 0x80) === 0) {
+			return { value, size: i + 1 };
+		}
+	}
+
+	throw new Error("Minecraft VarInt was too long");
+}
+
+/**
+ * Prefix a Minecraft protocol packet with its length.
+ * @param parts The packet ID and fields.
+ * @returns The complete packet.
+ */
+function mcPacket(...parts: Buffer[]): Buffer {
+	const body = Buffer.concat(parts);
+	return Buffer.concat([ mcVarInt(body.length), body ]);
+}
+
+/**
+ * Query a Minecraft Java Edition server using the server list ping protocol. See https://wiki.vg/Server_List_Ping.
+ * @param host Hostname or IP address of the server.
+ * @param port Port of the server.
+ * @param timeoutMs Milliseconds to wait for the server to respond.
+ * @returns Resolves with the server's information.
+ * @throws {Error} If the server could not be reached or responded with an invalid response.
+ */
+export function minecraftPing(host: string, port: number, timeoutMs: number): Promise<GameServerInfo> {
+	return new Promise((resolve, reject) => {
+		const socket = net.connect({ host, port });
+		let received = Buffer.alloc(0);
+
+		const fail = (err: Error) => {
+			socket.destroy();
+			reject(err);
+		};
+
+		socket.setTimeout(timeoutMs);
+		socket.once("timeout", () => fail(new Error(`Minecraft server ${host}:${port} did not respond within ${timeoutMs}ms`)));
+		socket.once("error", fail);
+
+		socket.once("connect", () => {
+			const hostBytes = Buffer.from(host, "utf8");
+			const portBytes = Buffer.alloc(2);
+			portBytes.writeUInt16BE(port);
+
+			// Handshake with protocol version -1 and next state status, then status request
+			socket.write(mcPacket(mcVarInt(0x00), mcVarInt(-1), mcVarInt(hostBytes.length), hostBytes, portBytes, mcVarInt(1)));
+			socket.write(mcPacket(mcVarInt(0x00)));
+		});
+
+		socket.on("data", (data) => {
+			received = Buffer.concat([ received, data ]);
+
+			try {
+				// Wait until the whole status response has arrived
+				const length = mcReadVarInt(received, 0);
+				if (length === undefined || received.length < length.size + length.value) {
+					return;
+				}
+
+				const packetID = mcReadVarInt(received, length.size);
+				const jsonLength = mcReadVarInt(received, length.size + packetID.size);
+				const jsonStart = length.size + packetID.size + jsonLength.size;
+				const status = JSON.parse(received.slice(jsonStart, jsonStart + jsonLength.value).toString("utf8"));
+
+				socket.destroy();
+				resolve({
+					players: status.players.online,
+					maxPlayers: status.players.max,
+				});
+			} catch (e) {
+				fail(new Error(`Minecraft server ${host}:${port} sent an invalid status response: ${e}`));
+			}
+		});
+	});
+}
+
+/**
+ * A2S_INFO request payload, without the challenge.
+ */
+const A2S_INFO_REQUEST = Buffer.concat([
+	Buffer.from([ 0xff, 0xff, 0xff, 0xff, 0x54 ]),
+	Buffer.from("Source Engine Query\0", "ascii"),
+]);
+
+/**
+ * Query a Source engine (or other Steam) game server using the A2S_INFO protocol. See https://developer.valvesoftware.com/wiki/Server_queries#A2S_INFO.
+ * @param host Hostname or IP address of the server.
+ * @param port Query port of the server.
+ * @param timeoutMs Milliseconds to wait for the server to respond.
+ * @returns Resolves with the server's information. Bots are not counted as players.
+ * @throws {Error} If the server could not be reached or responded with an invalid response.
+ */
+export function sourceQuery(host: string, port: number, timeoutMs: number): Promise<GameServerInfo> {
+	return new Promise((resolve, reject) => {
+		const socket = dgram.createSocket("udp4");
+
+		const timeout = setTimeout(() => fail(new Error(`Source server ${host}:${port} did not respond within ${timeoutMs}ms`)), timeoutMs);
+
+		const finish = () => {
+			clearTimeout(timeout);
+			socket.close();
+		};
+		const fail = (err: Error) => {
+			finish();
+			reject(err);
+		};
+
+		socket.once("error", fail);
+
+		socket.on("message", (msg) => {
+			try {
+				if (msg.readInt32LE(0) !== -1) {
+					throw new Error("split packet responses are not supported");
+				}
+
+				const header = msg[4];
+				if (header === 0x41) {
+					// Server sent a challenge which must be included in the request
+					socket.send(Buffer.concat([ A2S_INFO_REQUEST, msg.slice(5, 9) ]), port, host);
+					return;
+				}
+
+				if (header !== 0x49) {
+					throw new Error(`unexpected response header 0x${header.toString(16)}`);
+				}
+
+				// Skip protocol byte and the name, map, folder, and game strings
+				let offset = 6;
+				for (let i = 0; i < 4; i++) {
+					offset = msg.indexOf(0, offset) + 1;
+					if (offset === 0) {
+						throw new Error("response was truncated");
+					}
+				}
+
+				// Skip app ID short
+				offset += 2;
+
+				const players = msg[offset];
+				const maxPlayers = msg[offset + 1];
+				const bots = msg[offset + 2];
+
+				finish();
+				resolve({
+					players: players - bots,
+					maxPlayers,
+				});
+			} catch (e) {
+				fail(new Error(`Source server ${host}:${port} sent an invalid A2S_INFO response: ${e}`));
+			}
+		});
+
+		socket.send(A2S_INFO_REQUEST, port, host);
+	});
+}
+
+/**
+ * Query a game server using the protocol specified in the configuration.
+ * @param query Which game server to query and how.
+ * @returns Resolves with the server's information.
+ * @throws {Error} If the query failed.
+ */
+export async function queryGameServer(query: GameQueryConfig): Promise<GameServerInfo> {
+	switch (query.type) {
+		case "minecraft":
+			return await minecraftPing(query.host, query.port, query.timeoutMs);
+		case "source":
+			return await sourceQuery(query.host, query.port, query.timeoutMs);
+	}
+}
+
+/**
+ * Check if the game running on a virtual machine is ready for players to connect.
+ * @param probe The readiness probe to run.
+ * @returns Resolves with true if the game is ready. Failures resolve with false rather than rejecting.
+ */
+export async function probeGameReady(probe: ReadinessProbeConfig): Promise<boolean> {
+	try {
+		switch (probe.type) {
+			case "tcp":
+				return await tcpReachable(probe.host, probe.port, probe.timeoutMs);
+			case "minecraft":
+			case "source":
+				await queryGameServer(probe);
+				return true;
+		}
+	} catch (e) {
+		return false;
+	}
+}
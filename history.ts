@@ -0,0 +1,167 @@
+import moment from "moment";
+
+import { VMPowerState } from "./compute";
+import { PowerRequestData } from "./storage";
+
+/**
+ * A flattened summary of a power request, used to show and export power request history.
+ */
+export interface PowerRequestHistoryRow {
+	/**
+	 * Database ID of the power request.
+	 */
+	id: string;
+
+	/**
+	 * Friendly name of the virtual machine.
+	 */
+	server: string;
+
+	/**
+	 * Whether the power request started or stopped the virtual machine.
+	 */
+	action: "boot" | "shutdown";
+
+	/**
+	 * Where the power request is in its life cycle: "requested", "in_progress", "success", "error", "timed_out", or "cancelled".
+	 */
+	outcome: string;
+
+	/**
+	 * ID of the Discord user who made the power request. Null if the bot made the request itself. Undefined if the requester was not recorded.
+	 */
+	requester_user_id?: string|null;
+
+	/**
+	 * ID of the Discord guild in which the power request was made.
+	 */
+	guild_id?: string;
+
+	/**
+	 * ID of the Discord channel in which the power request was made.
+	 */
+	channel_id?: string;
+
+	/**
+	 * The unix time when the power request was made, or began if the request time was not recorded.
+	 */
+	start_time?: number;
+
+	/**
+	 * The unix time when the power request succeeded or failed.
+	 */
+	end_time?: number;
+
+	/**
+	 * Milliseconds between start_time and end_time.
+	 */
+	duration_ms?: number;
+
+	/**
+	 * User friendly error message if the power request failed.
+	 */
+	error?: string;
+}
+
+/**
+ * Summarize a power request for its history.
+ * @param data The power request.
+ * @returns The history row.
+ */
+export function powerRequestHistoryRow(data: PowerRequestData): PowerRequestHistoryRow {
+	const stage = data.stage;
+	const requester = data.requester;
+
+	let requesterUserID: string|null|undefined = undefined;
+	if (requester === null) {
+		requesterUserID = null;
+	} else if (requester !== undefined) {
+		requesterUserID = requester.user_id;
+	}
+
+	let startTime = stage.requested.time;
+	if (startTime === undefined && stage.in_progress !== undefined) {
+		startTime = stage.in_progress.time;
+	}
+
+	let endTime = undefined;
+	if (stage.current === "success") {
+		endTime = stage.success.time;
+	} else if (stage.current === "error") {
+		endTime = stage.error.time;
+	} else if (stage.current === "timed_out") {
+		endTime = stage.timed_out.time;
+	} else if (stage.current === "cancelled") {
+		endTime = stage.cancelled.time;
+	}
+
+	return {
+		id: data._id,
+		server: data.vm_cfg.friendlyName,
+		action: data.target_power === VMPowerState.Running ? "boot" : "shutdown",
+		outcome: stage.current,
+		requester_user_id: requesterUserID,
+		guild_id: requester ? requester.location.guildID : undefined,
+		channel_id: requester ? requester.location.channelID : undefined,
+		start_time: startTime,
+		end_time: endTime,
+		duration_ms: startTime !== undefined && endTime !== undefined ? endTime - startTime : undefined,
+		error: stage.current === "error" ? stage.error.user : undefined,
+	};
+}
+
+/**
+ * Columns of the CSV history export, in order.
+ */
+const HISTORY_CSV_COLUMNS: (keyof PowerRequestHistoryRow)[] = [
+	"id",
+	"server",
+	"action",
+	"outcome",
+	"requester_user_id",
+	"guild_id",
+	"channel_id",
+	"start_time",
+	"end_time",
+	"duration_ms",
+	"error",
+];
+
+/**
+ * Encode a value as a CSV field.
+ * @param value The value. Undefined and null values become empty fields.
+ * @returns The CSV field, quoted if required.
+ */
+function csvField(value: unknown): string {
+	if (value === undefined || value === null) {
+		return "";
+	}
+
+	const str = String(value);
+	if (/[",\r\n]/.test(str)) {
+		return `"${str.replace(/"/g, '""')}"`;
+	}
+
+	return str;
+}
+
+/**
+ * Encode history rows as CSV. Times are written as ISO 8601 strings.
+ * @param rows The history rows.
+ * @returns The CSV file contents, with a header row.
+ */
+export function historyCSV(rows: PowerRequestHistoryRow[]): string {
+	const lines = [ HISTORY_CSV_COLUMNS.join(",") ];
+
+	rows.forEach((row) => {
+		lines.push(HISTORY_CSV_COLUMNS.map((col) => {
+			if ((col === "start_time" || col === "end_time") && row[col] !== undefined) {
+				return csvField(moment(row[col]).toISOString());
+			}
+
+			return csvField(row[col]);
+		}).join(","));
+	});
+
+	return lines.join("\n") + "\n";
+}
@@ -1,13 +1,3 @@
-import { ClientSecretCredential } from "@azure/identity";
-import { ComputeManagementClient } from "@azure/arm-compute";
-import {
-	MongoClient,
-	Collection,
-	ObjectId,
-	Db as MongoDB,
-	WithId,
-	Document,
-} from "mongodb";
 import {
 	Client as DiscordClient,
 	CommandInteraction,
@@ -15,6 +5,15 @@ import {
 	InteractionResponseType,
 	MessageEmbedOptions,
 	TextChannel,
+	VoiceState,
+	BaseGuildVoiceChannel,
+	EmbedFieldData,
+	GuildMember,
+	ButtonInteraction,
+	Message,
+	MessageActionRow,
+	MessageButton,
+	MessageMentionOptions,
 } from "discord.js";
 import { REST as DiscordREST } from "@discordjs/rest";
 import { Routes as DiscordRESTRoutes } from "discord-api-types/v9";
@@ -25,14 +24,124 @@ import type {
 	Response as FetchResponse,
 } from "node-fetch";
 import moment from "moment";
+import { ZodError } from "zod";
+import { randomUUID } from "crypto";
+import { watchFile, unwatchFile } from "fs";
+import http from "http";
 
-import { loadConfig, BotConfig, VMConfig, vmCfgByFriendlyName } from "./config";
+import {
+	loadConfig,
+	BotConfig,
+	VMConfig,
+	vmCfgByFriendlyName,
+	ComputeProviderType,
+	PermissionAction,
+	CPowerTimeoutsConfig,
+	PowerTimeoutsConfig,
+	configIssues,
+} from "./config";
+import {
+	VMPowerState,
+	ComputeProvider,
+	AzureComputeProvider,
+	azureCredential,
+	SimulatorComputeProvider,
+	WakeOnLANComputeProvider,
+	InstrumentedComputeProvider,
+} from "./compute";
+import { probeGameReady, queryGameServer } from "./game";
+import {
+	BotDB,
+	connectBotDB,
+	InteractionID,
+	DiscordCtrlMsgID,
+	DiscordChannelLocation,
+	DiscordCtrlTxtMsgID,
+	DiscordCtrlInteractionID,
+	DISCORD_CTRL_TXT_MSG,
+	DISCORD_CTRL_INTERACTION,
+	PowerRequestData,
+	BootRequestData,
+	BootRequestStage,
+	POWER_REQUEST_ONGOING_STAGES,
+	BOOT_REQUEST_ONGOING_STAGES,
+	DiscordRequester,
+	PowerRequestFilter,
+	ScheduledJobData,
+	VMLockData,
+	SaveConflictError,
+} from "./storage";
+import { powerRequestHistoryRow, historyCSV } from "./history";
+import { vmUsage, formatCost, VMUsage } from "./cost";
+import { parseScheduleTime, nextCronTime, quietHoursAt, nextQuietHoursStart } from "./schedule";
+import { classifyPowerError, powerErrorUserMessage, PowerErrorKind, ComputeProviderError } from "./errors";
+import { Counter, Gauge, Histogram, metricsText } from "./metrics";
 
 /**
- * The interval at which ongoing power requests will be polled. In milliseconds.
+ * The interval at which ongoing power and boot requests will be polled. In milliseconds.
  */
 const ONGOING_POWER_REQUEST_INTERVAL = 5000;
 
+/**
+ * Name of the lease which a bot instance must hold to poll ongoing requests and run scheduled jobs. Stops multiple instances using the same database from doing this work twice.
+ */
+const POLL_LEASE_NAME = "poll_ongoing";
+
+/**
+ * How long the poll lease lasts before it must be renewed. If the instance holding the lease stops another instance takes over after this long. In milliseconds.
+ */
+const POLL_LEASE_DURATION = 30 * 1000;
+
+/**
+ * The interval at which the poll lease is acquired or renewed. Independent of how long polling takes. In milliseconds.
+ */
+const POLL_LEASE_RENEW_INTERVAL = 10 * 1000;
+
+/**
+ * How long the poll lease must still last for this instance to call a compute provider or save a polled request, so the work is done before another instance could take over. In milliseconds.
+ */
+const POLL_LEASE_MIN_REMAINING = 10 * 1000;
+
+/**
+ * Prefix of the names of the leases which must be held while checking a virtual machine has no ongoing power requests and saving a new one. Followed by the virtual machine's friendly name.
+ */
+const POWER_REQUEST_LEASE_PREFIX = "power_request:";
+
+/**
+ * How long a power request lease lasts, so the virtual machine isn't blocked forever if an instance stops before releasing it. In milliseconds.
+ */
+const POWER_REQUEST_LEASE_DURATION = 30 * 1000;
+
+/**
+ * The interval at which the configuration file is checked for changes. In milliseconds.
+ */
+const CONFIG_WATCH_INTERVAL = 2000;
+
+/**
+ * How long the database can take to respond to a health check ping before the bot is reported as unhealthy. In milliseconds.
+ */
+const HEALTH_CHECK_DB_TIMEOUT = 5000;
+
+/**
+ * How old a virtual machine's last known power state can be before the poll cycle checks it again, so the power state metric stays current. In milliseconds.
+ */
+const VM_POWER_STATE_METRIC_MAX_AGE = 60 * 1000;
+
+/**
+ * Upper bounds of the poll cycle duration metric's buckets. In seconds.
+ */
+const POLL_CYCLE_DURATION_BUCKETS = [ 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30 ];
+
+/**
+ * Upper bounds of the compute provider call duration metric's buckets. In seconds.
+ */
+const COMPUTE_CALL_DURATION_BUCKETS = [ 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30 ];
+
+/**
+ * The interval at which the player counts of game servers are checked for idle shutdowns. In milliseconds.
+ */
+const PLAYER_COUNT_INTERVAL = 60 * 1000;
+
 /**
  * Discord HTTP API base URL.
  */
@@ -41,7 +150,7 @@ const DISCORD_HTTP_PATH = "https://discord.com/api/v9";
 /**
  * The Discord permission integer required for the bot to function. See the Discord section in the README.md for details.
  */
-const DISCORD_BOT_PERM = 2147483648;
+const DISCORD_BOT_PERM = 2147486720;
 
 /**
  * The boot server Discord slash command name.
@@ -53,70 +162,204 @@ const BOOT_CMD_NAME = "boot";
  */
 const SHUTDOWN_CMD_NAME = "shutdown";
 
-const VM_POWER_STATE_DEALLOCATED = "PowerState/deallocated";
-const VM_POWER_STATE_DEALLOCATING = "PowerState/deallocating";
-const VM_POWER_STATE_RUNNING = "PowerState/running";
-const VM_POWER_STATE_STARTING = "PowerState/starting";
-const VM_POWER_STATE_STOPPED = "PowerState/stopped";
-const VM_POWER_STATE_STOPPING = "PowerState/stopping";
+/**
+ * The server status Discord slash command name.
+ */
+const STATUS_CMD_NAME = "status";
 
 /**
- * Color which represents an action in progress. Decimal version of hex code #ffff75 (old #e6e630).
+ * The extend server session Discord slash command name.
  */
-const DEC_COLOR_IN_PROGRESS = 16777077;
+const EXTEND_CMD_NAME = "extend";
 
 /**
- * Color which shows something is being turned on. Decimal version of hex code #7cff75 (old #39e630).
+ * The power request history Discord slash command name.
  */
-const DEC_COLOR_START = 8191861;
+const HISTORY_CMD_NAME = "history";
 
 /**
- * Color which shows something is being turned off. Decimal version of hex code #ff6161 (old #e01f1f).
+ * The number of power requests shown on each page of the history command.
  */
-const DEC_COLOR_STOP = 16736609;
+const HISTORY_PAGE_SIZE = 10;
+
+/**
+ * The uptime and cost report Discord slash command name.
+ */
+const COST_CMD_NAME = "cost";
+
+/**
+ * The scheduled boots and shutdowns Discord slash command group name.
+ */
+const SCHEDULE_CMD_NAME = "schedule";
+
+/**
+ * The lock server Discord slash command name.
+ */
+const LOCK_CMD_NAME = "lock";
+
+/**
+ * The unlock server Discord slash command name.
+ */
+const UNLOCK_CMD_NAME = "unlock";
+
+/**
+ * The cancel power request Discord slash command name.
+ */
+const CANCEL_CMD_NAME = "cancel";
+
+/**
+ * The notification subscription Discord slash command name.
+ */
+const NOTIFY_CMD_NAME = "notify";
+
+/**
+ * Custom ID prefix of the button which cancels an ongoing power request and undoes its changes. The power request's database ID follows a colon.
+ */
+const CANCEL_BUTTON_ID = "power_cancel";
+
+/**
+ * Custom ID prefix of the button which shuts down a running boot request's virtual machine. The boot request's database ID follows a colon.
+ */
+const SHUTDOWN_BUTTON_ID = "boot_shutdown";
+
+/**
+ * Custom ID prefix of the button which extends a running boot request's session. The boot request's database ID follows a colon.
+ */
+const EXTEND_BUTTON_ID = "boot_extend";
+
+/**
+ * The number of minutes the extend button adds to a session.
+ */
+const EXTEND_BUTTON_MINUTES = 60;
+
+/**
+ * Milliseconds to wait before retrying a power request after its first transient error. Doubles after each further transient error.
+ */
+const POWER_RETRY_BASE_DELAY = 5 * 1000;
+
+/**
+ * The longest time in milliseconds to wait before retrying a power request after a transient error.
+ */
+const POWER_RETRY_MAX_DELAY = 2 * 60 * 1000;
+
+/**
+ * The number of transient errors in a row after which a power request gives up.
+ */
+const POWER_RETRY_MAX_ATTEMPTS = 6;
+
+/**
+ * How late a scheduled job can run, in milliseconds. Jobs which were missed by more than this, like because the bot was not running, are skipped.
+ */
+const SCHEDULE_MISSED_GRACE_TIME = 15 * 60 * 1000;
+
+/**
+ * Words which describe each PermissionAction, for use in sentences like "you do not have permission to <word> the server".
+ */
+const PERMISSION_ACTION_WORDS: { [action in PermissionAction]: string } = {
+	boot: "start",
+	shutdown: "shut down",
+	other: "manage",
+	admin: "lock or unlock",
+};
+
+/**
+ * Words which describe each scheduled job action, for use in sentences like "will <word> the server".
+ */
+const SCHEDULE_ACTION_WORDS: { [action in ScheduledJobData["action"]]: string } = {
+	boot: "start",
+	shutdown: "shut down",
+};
 
 /**
- * The power state of an Azure virtual machine.
+ * Describe when a virtual machine lock ends.
+ * @param lock The lock.
+ * @returns A sentence which can be shown to users.
  */
-enum VMPowerState {
-	Deallocated = "PowerState/deallocated",
-	Deallocating = "PowerState/deallocating",
-	Running = "PowerState/running",
-	Starting = "PowerState/starting",
-	Stopped = "PowerState/stopped",
-	Stopping = "PowerState/stopping",
+function lockEndStr(lock: VMLockData): string {
+	if (lock.end_time === null) {
+		return `It will stay locked until someone runs /${UNLOCK_CMD_NAME}.`;
+	}
+
+	const endUnix = Math.round(lock.end_time / 1000);
+	return `It will be unlocked <t:${endUnix}:R>, at <t:${endUnix}:f>.`;
 }
 
 /**
- * Determine which VMPowerState a string represents.
- * @param code The power state code.
- * @returns Corresponding VMPowerState or undefined if there is no valid mapping.
+ * Determine which PermissionAction a user needs to make a power request.
+ * @param data The power request.
+ * @returns The permission action.
  */
-function vmPowerStateFromStr(code: string): VMPowerState|undefined {
-	switch (code) {
-		case VM_POWER_STATE_DEALLOCATED:
-			return VMPowerState.Deallocated;
-			break;
-		case VM_POWER_STATE_DEALLOCATING:
-			return VMPowerState.Deallocating;
-			break;
-		case VM_POWER_STATE_RUNNING:
-			return VMPowerState.Running;
-			break;
-		case VM_POWER_STATE_STARTING:
-			return VMPowerState.Starting;
-			break;
-		case VM_POWER_STATE_STOPPED:
-			return VMPowerState.Stopped;
-			break;
-		case VM_POWER_STATE_STOPPING:
-			return VMPowerState.Stopping;
-			break;
+function powerRequestPermissionAction(data: PowerRequestData): PermissionAction {
+	return data.target_power === VMPowerState.Running ? "boot" : "shutdown";
+}
+
+/**
+ * Find the configuration changes which can't be applied while the bot is running, as they are only used when the bot starts.
+ * @param oldCfg The configuration in use.
+ * @param newCfg The new configuration.
+ * @returns Paths of the fields which changed and require a restart.
+ */
+function restartRequiredChanges(oldCfg: BotConfig, newCfg: BotConfig): string[] {
+	const fields = {
+		"azure": (cfg: BotConfig) => cfg.azure,
+		"storage": (cfg: BotConfig) => cfg.storage,
+		"mongodb": (cfg: BotConfig) => cfg.mongodb,
+		"sqlite": (cfg: BotConfig) => cfg.sqlite,
+		"discord.guildID": (cfg: BotConfig) => cfg.discord.guildID,
+		"discord.applicationID": (cfg: BotConfig) => cfg.discord.applicationID,
+		"discord.botToken": (cfg: BotConfig) => cfg.discord.botToken,
+		"http": (cfg: BotConfig) => cfg.http,
+	};
+
+	return Object.keys(fields).filter((path) => JSON.stringify(fields[path](oldCfg)) !== JSON.stringify(fields[path](newCfg)));
+}
+
+/**
+ * Determine which PermissionAction a Discord slash command performs.
+ * @param cmdName The slash command name.
+ * @returns The permission action, or null if the command checks permissions itself as the action depends on what it targets.
+ */
+function permissionActionForCmd(cmdName: string): PermissionAction|null {
+	switch (cmdName) {
+		case CANCEL_CMD_NAME:
+			return null;
+		case BOOT_CMD_NAME:
+			return "boot";
+		case SHUTDOWN_CMD_NAME:
+			return "shutdown";
+		case LOCK_CMD_NAME:
+		case UNLOCK_CMD_NAME:
+			return "admin";
 	}
 
-	return undefined;
+	return "other";
 }
 
+/**
+ * How long after an interaction is created that its control message is moved to a regular message, in milliseconds. Discord interaction tokens expire after 15 minutes, this leaves a minute to spare.
+ */
+const INTERACTION_TOKEN_EXPIRE_TIME = 14 * 60 * 1000;
+
+/**
+ * How long before a boot request expires that users will be warned the server is going to shut down. In milliseconds.
+ */
+const BOOT_EXPIRE_WARN_TIME = 15 * 60 * 1000;
+
+/**
+ * Color which represents an action in progress. Decimal version of hex code #ffff75 (old #e6e630).
+ */
+const DEC_COLOR_IN_PROGRESS = 16777077;
+
+/**
+ * Color which shows something is being turned on. Decimal version of hex code #7cff75 (old #39e630).
+ */
+const DEC_COLOR_START = 8191861;
+
+/**
+ * Color which shows something is being turned off. Decimal version of hex code #ff6161 (old #e01f1f).
+ */
+const DEC_COLOR_STOP = 16736609;
+
 /**
  * Gets the non-terminal state which is related to the terminal state. This function will not work if the power rgument is not a terminal state.
  * @param power Terminal state for which to fetch non-terminal equivalent.
@@ -139,6 +382,19 @@ function nonTerminalForPower(power: VMPowerState): VMPowerState {
 	throw new Error(`power state ${power} must be terminal, was not`);
 }
 
+/**
+ * Get the value of a metric label which identifies a power state.
+ * @param power The power state, or undefined if it is not known.
+ * @returns Power state without Azure's "PowerState/" prefix, like "running", or "unknown".
+ */
+function powerStateLabel(power: VMPowerState|undefined): string {
+	if (power === undefined) {
+		return "unknown";
+	}
+
+	return power.replace("PowerState/", "");
+}
+
 /**
  * Creates a VMState for a VMPowerState.
  * @param power Power state from which to make VMState.
@@ -182,6 +438,52 @@ function vmStateFromPower(power: VMPowerState): VMState {
 	};
 }
 
+/**
+ * Build the control message ID for the initial response to a Discord interaction.
+ * @param interaction The interaction.
+ * @returns Control message ID, which remembers where the interaction happened so the control message can be moved to a regular message when the interaction token expires.
+ */
+function interactionCtrlMsgID(interaction: CommandInteraction|ButtonInteraction): DiscordCtrlInteractionID {
+	return {
+		ctrl_type: DISCORD_CTRL_INTERACTION,
+		id: interaction.id,
+		token: interaction.token,
+		location: {
+			guildID: interaction.guildId,
+			channelID: interaction.channelId,
+		},
+		created_time: interaction.createdTimestamp,
+	};
+}
+
+/**
+ * Runs async functions one at a time, in the order they were submitted.
+ */
+class AsyncLock {
+	/**
+	 * Resolves when the most recently submitted function completes.
+	 */
+	tail: Promise<void>;
+
+	/**
+	 * Create a new unlocked AsyncLock.
+	 */
+	constructor() {
+		this.tail = Promise.resolve();
+	}
+
+	/**
+	 * Run a function once all previously submitted functions have completed.
+	 * @param fn The function to run.
+	 * @returns Resolves with the function's result.
+	 */
+	run<T>(fn: () => Promise<T>): Promise<T> {
+		const res = this.tail.then(fn);
+		this.tail = res.then(() => {}, () => {});
+		return res;
+	}
+}
+
 /**
  * Describes details of any virtual machine state abstractly.
  */
@@ -203,18 +505,25 @@ interface VMState {
 }
 
 /**
- * Information identifying a Discord interaction.
+ * Indicates a Discord HTTP API request made by DiscordInteraction did not succeed.
  */
-interface InteractionID {
+class DiscordHTTPError extends Error {
 	/**
-	 * The ID of the Discord interaction.
+	 * HTTP status code of the response.
 	 */
-	id: string;
+	status: number;
 
 	/**
-	 * The token for the Discord interaction.
+	 * Create a new DiscordHTTPError.
+	 * @param path API endpoint path of the request.
+	 * @param status HTTP status code of the response.
+	 * @param body Body of the response.
 	 */
-	token: string;
+	constructor(path: string, status: number, body: string) {
+		super(`Failed to make Discord HTTP API request to ${path}, response had non-okay code ${status}, response body "${body}"`);
+		this.name = "DiscordHTTPError";
+		this.status = status;
+	}
 }
 
 /**
@@ -245,7 +554,7 @@ class DiscordInteraction {
 	 * @param path API endpoint path relative to Discord API base. Include leading slash.
 	 * @param opts Fetch request options.
 	 * @returns Resolves when request completes.
-	 * @throws {Error} If request did not succeed.
+	 * @throws {DiscordHTTPError} If request did not succeed.
 	 */
 	async fetch(path: string, opts: object): Promise<FetchResponse> {
 		if (!("headers" in opts)) {
@@ -258,8 +567,7 @@ class DiscordInteraction {
 		const resp = await fetch(`${DISCORD_HTTP_PATH}${path}`, opts);
 
 		if (resp.status < 200 || resp.status >= 300) {
-			const body = await resp.text();
-			throw new Error(`Failed to make Discord HTTP API request to ${path}, response had non-okay code ${resp.status}, response body "${body}"`);
+			throw new DiscordHTTPError(path, resp.status, await resp.text());
 		}
 
 		return resp;
@@ -305,18 +613,37 @@ class DiscordInteraction {
 	 * Edit the initial interaction response.
 	 * @param content New message content.
 	 * @param [embeds] Array of new embeds.
+	 * @param [components] Array of new message component rows. If undefined then any existing components are removed.
 	 * @returns Resolves when edit Discord API call completes.
 	 */
-	async editInitResp(content: string, embeds?: MessageEmbedOptions[]): Promise<void> {
+	async editInitResp(content: string, embeds?: MessageEmbedOptions[], components?: MessageActionRow[]): Promise<void> {
 		if (embeds === undefined) {
 			embeds = [];
 		}
+		if (components === undefined) {
+			components = [];
+		}
 		
 		const resp = await this.fetch(`/webhooks/${this.bot.cfg.discord.applicationID}/${this.interaction_id.token}/messages/@original`, {
 			method: "PATCH",
 			body: JSON.stringify({
 				content: content,
 				embeds: embeds,
+				components: components.map((row) => row.toJSON()),
+			}),
+		});
+	}
+
+	/**
+	 * Replace the message components of the initial interaction response, without changing its content or embeds.
+	 * @param components Array of new message component rows.
+	 * @returns Resolves when edit Discord API call completes.
+	 */
+	async editInitRespComponents(components: MessageActionRow[]): Promise<void> {
+		await this.fetch(`/webhooks/${this.bot.cfg.discord.applicationID}/${this.interaction_id.token}/messages/@original`, {
+			method: "PATCH",
+			body: JSON.stringify({
+				components: components.map((row) => row.toJSON()),
 			}),
 		});
 	}
@@ -347,101 +674,166 @@ class DiscordCtrlMsg {
 	}
 
 	/**
-	 * Edit the message's contents.
-	 * @returns Resolves when message has been successfully edited.
-	 * @throws {Error} If the message could not be found or could not be edited.
+	 * Send a new regular Discord message which can be used as a control message.
+	 * @param bot Application bot context.
+	 * @param location The Discord channel in which to send the message.
+	 * @param content The message text content.
+	 * @param [embed] Embed to include in the message.
+	 * @param [components] Message component rows, like buttons, to include in the message.
+	 * @param [allowedMentions] Which mentions in the message notify users. Defaults to all of them.
+	 * @returns Resolves with a control message client for the new message.
+	 * @throws {Error} If the channel could not be found or the message could not be sent.
 	 */
-	async edit(content: string, embed?: MessageEmbedOptions): Promise<void> {
-		switch (this.id.ctrl_type) {
-			case DISCORD_CTRL_TXT_MSG:
-				// If a regular Discord message, get it
-				const guild = await this.bot.discord.guilds.cache.get(this.id.location.guildID);
-				if (guild === undefined) {
-					throw new Error(`could not edit message as its guild with ID ${this.id.location.guildID} could not be found`);
-				}
-				
-				const channel = await guild.channels.cache.get(this.id.location.channelID);
-				if (channel === undefined) {
-					throw new Error(`could not edit message as its channel with ID ${this.id.location.channelID} could not be found`);
-				}
-				
-				if (channel.isText() === true) {
-					const msg = await (channel as TextChannel).messages.cache.get(this.id.msgID);
+	static async Send(bot: Bot, location: DiscordChannelLocation, content: string, embed?: MessageEmbedOptions, components?: MessageActionRow[], allowedMentions?: MessageMentionOptions): Promise<DiscordCtrlMsg> {
+		const guild = await bot.discord.guilds.cache.get(location.guildID);
+		if (guild === undefined) {
+			throw new Error(`could not send message as its guild with ID ${location.guildID} could not be found`);
+		}
 
-					// Then edit
-					await msg.edit({
-						content,
-						embeds: [ embed ],
-					});
-				} else {
-					throw new Error(`could not edit message as its channel with ID ${this.id.location.channelID} was not a text channel`);
-				}
-				break;
-			case DISCORD_CTRL_INTERACTION:
-				// Create interaction client and edit message
-				const interaction = new DiscordInteraction(this.bot, this.id);
-				await interaction.editInitResp(content, [embed]);
-				break;
+		const channel = await guild.channels.cache.get(location.channelID);
+		if (channel === undefined) {
+			throw new Error(`could not send message as its channel with ID ${location.channelID} could not be found`);
 		}
-	}
-}
 
-/**
- * Indentifies a Discord message to use as a control message. Can either be a vanilla message or an interaction.
- */
-type DiscordCtrlMsgID = DiscordCtrlTxtMsgID | DiscordCtrlInteractionID;
+		if (channel.isText() !== true) {
+			throw new Error(`could not send message as its channel with ID ${location.channelID} was not a text channel`);
+		}
+
+		const msg = await (channel as TextChannel).send({
+			content,
+			embeds: embed === undefined ? [] : [ embed ],
+			components: components === undefined ? [] : components,
+			allowedMentions,
+		});
+
+		return new DiscordCtrlMsg(bot, {
+			ctrl_type: DISCORD_CTRL_TXT_MSG,
+			location,
+			msgID: msg.id,
+		});
+	}
 
-/**
- * Identifies a location in Discord where text messages can be sent.
- */
-interface DiscordChannelLocation {
 	/**
-	 * ID of the Discord guild in which this message exists.
+	 * Get the regular Discord message which is the control message.
+	 * @param id Identifier of the regular Discord message.
+	 * @returns Resolves with the message.
+	 * @throws {Error} If the message could not be found.
 	 */
-	guildID: string;
+	async txtMsg(id: DiscordCtrlTxtMsgID): Promise<Message> {
+		const guild = await this.bot.discord.guilds.cache.get(id.location.guildID);
+		if (guild === undefined) {
+			throw new Error(`could not edit message as its guild with ID ${id.location.guildID} could not be found`);
+		}
+		
+		const channel = await guild.channels.cache.get(id.location.channelID);
+		if (channel === undefined) {
+			throw new Error(`could not edit message as its channel with ID ${id.location.channelID} could not be found`);
+		}
+		
+		if (channel.isText() !== true) {
+			throw new Error(`could not edit message as its channel with ID ${id.location.channelID} was not a text channel`);
+		}
+
+		// Fetch checks the cache first, then falls back to the API for messages sent before the bot started
+		return await (channel as TextChannel).messages.fetch(id.msgID);
+	}
 
 	/**
-	 * ID of the Discord channel in which this message exists.
+	 * Check if the control message's interaction token has expired, or is about to.
+	 * @param id Identifier of the interaction.
+	 * @returns True if the token has expired. False if it has not or its age is unknown.
 	 */
-	channelID: string;
-}
+	interactionExpired(id: DiscordCtrlInteractionID): boolean {
+		if (id.created_time === undefined) {
+			return false;
+		}
 
-/**
- * Identifies a regular Discord message as the control message.
- */
-type DiscordCtrlTxtMsgID = {
-	ctrl_type: "TXT_MSG";
+		return moment().valueOf() - id.created_time >= INTERACTION_TOKEN_EXPIRE_TIME;
+	}
 
 	/**
-	 * Specifies a Discord guild and channel in which the message exists.
+	 * Edit the initial response of the control message's interaction. If the interaction token has expired a regular message is sent in the interaction's channel instead, and becomes the control message. Callers which store the control message ID should save .id afterwards.
+	 * @param id Identifier of the interaction.
+	 * @param content New message content.
+	 * @param embeds New embeds.
+	 * @param [components] New message component rows.
+	 * @param [componentsOnly] If true only the components of the initial response are replaced. Content and embeds are then only used if a regular message has to be sent instead.
+	 * @returns Resolves when the message has been edited or sent.
+	 * @throws {Error} If the message could not be edited or sent.
 	 */
-	location: DiscordChannelLocation;
+	async editInteraction(id: DiscordCtrlInteractionID, content: string, embeds: MessageEmbedOptions[], components?: MessageActionRow[], componentsOnly: boolean = false): Promise<void> {
+		if (this.interactionExpired(id) === false || id.location === undefined) {
+			try {
+				const interaction = new DiscordInteraction(this.bot, id);
+				if (componentsOnly === true) {
+					await interaction.editInitRespComponents(components);
+				} else {
+					await interaction.editInitResp(content, embeds, components);
+				}
+				return;
+			} catch (e) {
+				// Discord responds with 401 Invalid Webhook Token or 404 Unknown Webhook for expired tokens
+				const expired = e instanceof DiscordHTTPError && (e.status === 401 || e.status === 404);
+				if (expired === false || id.location === undefined) {
+					throw e;
+				}
+			}
+		}
+
+		const ctrlMsg = await DiscordCtrlMsg.Send(this.bot, id.location, content, embeds[0], components);
+		this.bot.log.info("interaction token expired, moved control message to a regular message", { interaction_id: id.id, ctrl_msg_id: ctrlMsg.id });
+		this.id = ctrlMsg.id;
+	}
 
 	/**
-	 * ID of the Discord message.
+	 * Edit the message's contents.
+	 * @param content New message content. If undefined the content is not changed.
+	 * @param [embed] New embed. If undefined then any existing embeds are removed.
+	 * @param [components] New message component rows, like buttons. If undefined then any existing components are removed.
+	 * @returns Resolves when message has been successfully edited. If the control message was an interaction whose token expired then .id is changed to a new regular message.
+	 * @throws {Error} If the message could not be found or could not be edited.
 	 */
-	msgID: string;
-};
-
-/**
- * Identifies a DiscordCtrlMsgID as a DiscordCtrlTxtMsgID.
- */
-const DISCORD_CTRL_TXT_MSG = "TXT_MSG";
+	async edit(content: string, embed?: MessageEmbedOptions, components?: MessageActionRow[]): Promise<void> {
+		const embeds = embed === undefined ? [] : [ embed ];
+		
+		switch (this.id.ctrl_type) {
+			case DISCORD_CTRL_TXT_MSG:
+				// If a regular Discord message, get it then edit
+				const msg = await this.txtMsg(this.id);
+				await msg.edit({
+					content,
+					embeds,
+					components: components === undefined ? [] : components,
+				});
+				break;
+			case DISCORD_CTRL_INTERACTION:
+				await this.editInteraction(this.id, content, embeds, components);
+				break;
+		}
+	}
 
-/**
- * Identifies a Discord interaction to use as the control message.
- */
-interface DiscordCtrlInteractionID extends InteractionID {
-	ctrl_type: "INTERACTION";
+	/**
+	 * Replace the message's components without changing its content or embeds.
+	 * @param components New message component rows, like buttons. Pass an empty array to remove all components.
+	 * @param [fallbackEmbed] Embed shown alongside the components if the control message was an interaction whose token expired, as a new regular message has to be sent.
+	 * @returns Resolves when message has been successfully edited. If the control message was an interaction whose token expired then .id is changed to a new regular message.
+	 * @throws {Error} If the message could not be found or could not be edited.
+	 */
+	async editComponents(components: MessageActionRow[], fallbackEmbed?: MessageEmbedOptions): Promise<void> {
+		switch (this.id.ctrl_type) {
+			case DISCORD_CTRL_TXT_MSG:
+				const msg = await this.txtMsg(this.id);
+				await msg.edit({ components });
+				break;
+			case DISCORD_CTRL_INTERACTION:
+				await this.editInteraction(this.id, undefined, fallbackEmbed === undefined ? [] : [ fallbackEmbed ], components, true);
+				break;
+		}
+	}
 }
 
 /**
- * Identifies a DiscordCtrlMsgID as a DiscordCtrlInteractionID.
- */
-const DISCORD_CTRL_INTERACTION = "INTERACTION";
-
-/**
- * Represents a request to change the power state of a virtual machine.
+ * Represents a request to change the power state of a virtual machine.
  */
 class PowerRequest {
 	/**
@@ -460,18 +852,22 @@ class PowerRequest {
 	 * @param ctrlMsgID Identifier of a Discord message which will be used to interact with the user.
 	 * @param vmCfg The configuration of the virtual machine this power request modify.
 	 * @param targetPower The power state which the request will try to make the virtual machine reach.
+	 * @param requester The Discord user who requested the power change, or null if the bot is making the request itself.
 	 * @throws {Error} If targetPower is not a terminal state.
 	 */
-	constructor(bot: Bot, ctrlMsgID: DiscordCtrlMsgID, vmCfg: VMConfig, targetPower: VMPowerState) {
+	constructor(bot: Bot, ctrlMsgID: DiscordCtrlMsgID, vmCfg: VMConfig, targetPower: VMPowerState, requester: DiscordRequester|null) {
 		this.bot = bot;
 		this.data = {
 			ctrl_msg_id: ctrlMsgID,
 			vm_cfg: vmCfg,
 			target_power: targetPower,
+			requester,
 			stage: {
 				current: "requested",
 				flip_flop: true,
-				requested: {},
+				requested: {
+					time: moment().valueOf(),
+				},
 			},
 		};
 
@@ -489,7 +885,25 @@ class PowerRequest {
 	 * @returns Resolves with number of ongoing requests.
 	 */
 	static async OngoingCount(bot: Bot, vmCfg: VMConfig): Promise<number> {
-		return await bot.db.power_requests.countDocuments({ "vm_cfg.friendlyName": vmCfg.friendlyName, "stage.current": "in_progress" });
+		return await bot.db.power_requests.countInProgressByVM(vmCfg.friendlyName);
+	}
+
+	/**
+	 * Retrieve a power request from the database by its database ID.
+	 * @param bot Bot application context.
+	 * @param id Database ID of the power request.
+	 * @returns Resolves with the power request.
+	 * @throws {Error} If no power request with the ID exists.
+	 */
+	static async ByID(bot: Bot, id: string): Promise<PowerRequest> {
+		const data = await bot.db.power_requests.get(id);
+		if (data === null) {
+			throw new Error(`could not find power request with ID ${id}`);
+		}
+
+		const powerReq = new PowerRequest(bot, data.ctrl_msg_id, data.vm_cfg, data.target_power, data.requester);
+		powerReq.data = data;
+		return powerReq;
 	}
 
 	/**
@@ -497,66 +911,323 @@ class PowerRequest {
 	 * @returns The virtual machine VMPowerState status. Returns undefined if there are no power states for the virtual machine.
 	 */
 	async powerState(): Promise<VMPowerState|undefined> {
-		// Get status of virtual machine
-		const vmInstance = await this.bot.azureCompute.virtualMachines.instanceView(this.data.vm_cfg.resourceGroup, this.data.vm_cfg.azureName);
+		const power = await this.bot.vmCompute(this.data.vm_cfg).powerState(this.data.vm_cfg);
+		this.bot.observePowerState(this.data.vm_cfg.friendlyName, power);
+		return power;
+	}
+
+	/**
+	 * Save in database. Stores the database Id in .data._id.
+	 * @returns Resolves when stored.
+	 * @throws {SaveConflictError} If the power request was saved by someone else since it was loaded.
+	 */
+	async save(): Promise<void> {
+		this.data._id = await this.bot.db.power_requests.save(this.data);
+	}
+
+	/**
+	 * Save a new power request in the database, unless another power request is already ongoing on the virtual machine in the database. Holds the virtual machine's power request lease while checking and saving, so commands and bot instances which don't share a lock can't both save one.
+	 * @param [ignoreID] Database ID of an ongoing power request which is allowed, like the cancelled power request a new one is reverting.
+	 * @returns Resolves with true if saved, or false if another power request is ongoing or being saved, then nothing was saved.
+	 */
+	async saveNew(ignoreID?: string): Promise<boolean> {
+		const leaseName = `${POWER_REQUEST_LEASE_PREFIX}${this.data.vm_cfg.friendlyName}`;
+		const holder = randomUUID();
+		const now = moment().valueOf();
+		if (await this.bot.db.leases.acquire(leaseName, holder, now, now + POWER_REQUEST_LEASE_DURATION) === false) {
+			return false;
+		}
+
+		try {
+			const ongoing = await this.bot.db.power_requests.findOngoingByVM(this.data.vm_cfg.friendlyName);
+			if (ongoing !== null && ongoing._id !== ignoreID) {
+				return false;
+			}
 
-		// possible values: https://docs.microsoft.com/en-us/dotnet/api/microsoft.azure.management.compute.fluent.powerstate?view=azure-dotnet#fields
-		if (vmInstance.statuses === undefined) {
-			this.bot.log.warn("powerState(): vm instance had no .statuses field", { vmInstance });
-			return undefined;
+			await this.save();
+			return true;
+		} finally {
+			await this.bot.db.leases.release(leaseName, holder);
 		}
-		
-		const powerStates = vmInstance.statuses.filter((v) => v.code.indexOf("PowerState/") !== -1);
+	}
+
+	/**
+	 * Load .data field values from the database.
+	 * @returns Resolves when .data field has been loaded.
+	 */
+	async load(): Promise<void> {
+		if (this.data._id !== undefined) {
+			this.data = await this.bot.db.power_requests.get(this.data._id);
+			return;
+		}
+
+		this.data = await this.bot.db.power_requests.getByCtrlMsg(this.data.ctrl_msg_id);
+	}
+
+	/**
+	 * Build a button which lets users cancel the power request. The power request must have been saved in the database.
+	 * @returns Discord message component rows.
+	 */
+	cancelButtons(): MessageActionRow[] {
+		return [
+			new MessageActionRow().addComponents(
+				new MessageButton()
+					.setCustomId(`${CANCEL_BUTTON_ID}:${this.data._id}`)
+					.setLabel("Cancel")
+					.setStyle("SECONDARY"),
+			),
+		];
+	}
 
-		if (powerStates.length === 0) {
-			this.bot.log.warn("powerState(): vm instance  no PowerState/ type statuses", { vmInstance });
-			return undefined;
+	/**
+	 * Get the virtual machine's timeouts.
+	 * @returns The timeouts from vm_cfg, or the defaults for power requests stored before timeouts were configurable.
+	 */
+	timeouts(): PowerTimeoutsConfig {
+		if (this.data.vm_cfg.timeouts === undefined) {
+			return CPowerTimeoutsConfig.parse({});
 		}
 
-		const code = powerStates[powerStates.length-1].code;
-		return vmPowerStateFromStr(code);
+		return this.data.vm_cfg.timeouts;
 	}
 
 	/**
-	 * Returns an object used as the primary key in the database.
-	 * @returns Object with primary key fields.
+	 * Determine how long the power request is allowed to take.
+	 * @returns The number of minutes from vm_cfg.timeouts for the target power state.
 	 */
-	pk(): object {
-		return {
-			ctrl_msg_id: this.data.ctrl_msg_id,
+	timeoutMinutes(): number {
+		const timeouts = this.timeouts();
+		switch (this.data.target_power) {
+			case VMPowerState.Running:
+				return timeouts.startMinutes;
+			case VMPowerState.Stopped:
+				return timeouts.powerOffMinutes;
+			default:
+				return timeouts.shutdownMinutes;
+		}
+	}
+
+	/**
+	 * Check if the power request has been going on for longer than its timeout.
+	 * @returns True if the power request has timed out.
+	 */
+	timedOut(): boolean {
+		let startTime = this.data.stage.requested.time;
+		if (this.data.stage.in_progress !== undefined) {
+			startTime = this.data.stage.in_progress.time;
+		}
+		if (startTime === undefined) {
+			return false;
+		}
+
+		return moment().valueOf() - startTime > this.timeoutMinutes() * 60 * 1000;
+	}
+
+	/**
+	 * Move the power request to the timed_out stage, show users what went wrong, and mention anyone who should look into it.
+	 * @param [requireLease] If true then messages are only sent while this instance holds the poll lease. If the lease is lost it stops and the power request should not be saved.
+	 * @returns Resolves when done.
+	 */
+	async timeOut(requireLease: boolean = false): Promise<void> {
+		const vmName = this.data.vm_cfg.friendlyName;
+		const timeouts = this.timeouts();
+		const timeoutMinutes = this.timeoutMinutes();
+
+		let actionWord = "shut down";
+		if (this.data.target_power === VMPowerState.Running) {
+			actionWord = "start";
+		} else if (this.data.target_power === VMPowerState.Stopped) {
+			actionWord = "power off";
+		}
+
+		this.data.stage.current = "timed_out";
+		this.data.stage.timed_out = {
+			time: moment().valueOf(),
+			timeout_minutes: timeoutMinutes,
+		};
+		this.bot.log.warn("power request timed out", { data: this.data });
+
+		// Show what the bot last saw, to help whoever looks into it
+		const fields = [];
+		const inProgress = this.data.stage.in_progress;
+		if (inProgress !== undefined) {
+			fields.push({
+				name: "Waited Since",
+				value: `<t:${Math.round(inProgress.time / 1000)}:f>`,
+				inline: true,
+			});
+
+			if (inProgress.last_power !== undefined) {
+				fields.push({
+					name: "Last Server Status",
+					value: inProgress.last_power === null ? "Unknown" : vmStateFromPower(inProgress.last_power).friendlyName,
+					inline: true,
+				});
+			}
+		}
+
+		const retry = this.data.stage.retry;
+		if (retry !== undefined && retry !== null) {
+			fields.push({
+				name: "Last Error",
+				value: `${retry.last_error.code !== null ? retry.last_error.code : retry.last_error.name} (${retry.attempts} attempts)`,
+				inline: true,
+			});
+		}
+
+		if (this.leaseLost(requireLease) === true) {
+			return;
+		}
+
+		try {
+			const ctrlMsg = new DiscordCtrlMsg(this.bot, this.data.ctrl_msg_id);
+			await ctrlMsg.edit(undefined, {
+				title: `:alarm_clock: ${vmName} Server ${actionWord === "start" ? "Start" : "Shutdown"} Timed Out`,
+				color: DEC_COLOR_STOP,
+				description: `Sorry, the ${vmName} server didn't ${actionWord} within ${timeoutMinutes} minutes, so the bot stopped waiting. An admin may need to check on it.`,
+				fields,
+			});
+
+			// The control message moves to a regular message once the interaction token expires
+			this.data.ctrl_msg_id = ctrlMsg.id;
+		} catch (e) {
+			this.bot.log.warn("failed to update control message of timed out power request", { error: e, _id: this.data._id });
+		}
+
+		// Get the attention of anyone who can fix the server
+		const mentions = timeouts.mentionRoleIDs.map((id) => `<@&${id}>`)
+			.concat(timeouts.mentionUserIDs.map((id) => `<@${id}>`));
+		let location = null;
+		if (this.data.requester !== undefined && this.data.requester !== null) {
+			location = this.data.requester.location;
+		} else if (this.data.ctrl_msg_id.ctrl_type === DISCORD_CTRL_TXT_MSG) {
+			location = this.data.ctrl_msg_id.location;
+		}
+
+		if (this.leaseLost(requireLease) === true) {
+			return;
+		}
+
+		if (mentions.length > 0 && location !== null) {
+			try {
+				await DiscordCtrlMsg.Send(this.bot, location, `${mentions.join(" ")} the request to ${actionWord} the ${vmName} server timed out after ${timeoutMinutes} minutes, please check on it.`);
+			} catch (e) {
+				this.bot.log.warn("failed to mention admins about timed out power request", { error: e, _id: this.data._id });
+			}
+		}
+
+		await this.notifySubscribers(requireLease);
+	}
+
+	/**
+	 * Send a direct message to each user subscribed to the virtual machine's notifications saying how the power request ended. Failures are logged, as users may not accept direct messages.
+	 * @param [requireLease] If true then direct messages are only sent while this instance holds the poll lease.
+	 * @returns Resolves when done.
+	 */
+	async notifySubscribers(requireLease: boolean = false): Promise<void> {
+		if (this.leaseLost(requireLease) === true) {
+			return;
+		}
+
+		const vmName = this.data.vm_cfg.friendlyName;
+		const stage = this.data.stage;
+
+		let embed: MessageEmbedOptions = {
+			title: `${vmName} Server`,
+			color: DEC_COLOR_STOP,
 		};
+		if (stage.current === "success") {
+			embed.title = `:sparkles: ${embed.title}`;
+			embed.color = this.data.target_power === VMPowerState.Running ? DEC_COLOR_START : DEC_COLOR_STOP;
+			embed.description = `The ${vmName} server is ${vmStateFromPower(this.data.target_power).friendlyName} now.`;
+		} else if (stage.current === "error") {
+			embed.title = `:warning: ${embed.title}`;
+			embed.description = `Sorry, ${stage.error.user}.`;
+		} else if (stage.current === "timed_out") {
+			embed.title = `:alarm_clock: ${embed.title}`;
+			embed.description = `Sorry, the ${vmName} server took longer than ${stage.timed_out.timeout_minutes} minutes to become ${vmStateFromPower(this.data.target_power).friendlyName}, an admin may need to check on it.`;
+		} else {
+			return;
+		}
+
+		try {
+			const subscriptions = await this.bot.db.notify_subscriptions.listByVM(vmName);
+
+			await Promise.all(subscriptions.map(async (sub) => {
+				try {
+					const user = await this.bot.discord.users.fetch(sub.user_id);
+					await user.send({ embeds: [ embed ] });
+				} catch (e) {
+					this.bot.log.warn("failed to send notification direct message", { error: e, user_id: sub.user_id, vm_name: vmName });
+				}
+			}));
+		} catch (e) {
+			this.bot.log.error("failed to notify subscribers", { error: e, vm_name: vmName });
+		}
 	}
 
 	/**
-	 * Save in database. Stores the database Id in .data._id.
-	 * @returns Resolves when stored.
+	 * Check if this instance lost the poll lease, so it must stop polling because another instance may be polling the power request too.
+	 * @param requireLease If false then the lease isn't needed and it can't be lost.
+	 * @returns True if the lease is needed but not held.
 	 */
-	async save(): Promise<void> {
-		const res = await this.bot.db.power_requests.updateOne(this.pk(), { $set: this.data }, { upsert: true });
-		this.data._id = res.upsertedId;
+	leaseLost(requireLease: boolean): boolean {
+		if (requireLease === false || this.bot.holdsPollLease(POLL_LEASE_MIN_REMAINING) === true) {
+			return false;
+		}
+
+		this.bot.log.warn("lost poll lease while polling power request, stopping", { _id: this.data._id });
+		return true;
 	}
 
 	/**
-	 * Load .data field values from the database.
-	 * @returns Resolves when .data field has been loaded.
+	 * Make a compute provider call, wrapping any error in a ComputeProviderError so poll() knows the virtual machine's provider failed.
+	 * @param call Makes the compute provider call.
+	 * @returns Resolves with the call's result.
+	 * @throws {ComputeProviderError} If the call fails.
 	 */
-	async load(): Promise<void> {
-		this.data = await this.bot.db.power_requests.findOne(this.pk());
+	async computeCall<T>(call: () => Promise<T>): Promise<T> {
+		try {
+			return await call();
+		} catch (e) {
+			// Providers may already have wrapped the error, like when they give up on a call themselves
+			if (e instanceof ComputeProviderError) {
+				throw e;
+			}
+			throw new ComputeProviderError(e);
+		}
 	}
 
 	/**
 	 * Check the status of the virtual machine and perform the required action to make its power state match the request state. Should be called at a regular interval until the virtual machine is in the correct state.
+	 * @param [requireLease] If true then the virtual machine's compute provider is only called, and messages only sent, while this instance holds the poll lease. If the lease is lost the poll stops and the power request should not be saved.
 	 * @returns Resolves when done processing. 
 	 */
-	async poll(): Promise<void> {
+	async poll(requireLease: boolean = false): Promise<void> {
+		// Give up if the power change is taking too long
+		if (this.timedOut() === true) {
+			await this.timeOut(requireLease);
+			return;
+		}
+
+		// Wait out the backoff after a transient error
+		const retry = this.data.stage.retry;
+		if (retry !== undefined && retry !== null && moment().valueOf() < retry.next_time) {
+			return;
+		}
+		
 		try {
 			// Flip the flip flopper (used for two frame animations over responses)
 			this.data.stage.flip_flop = !this.data.stage.flip_flop;
 
 			const ctrlMsgClient = new DiscordCtrlMsg(this.bot, this.data.ctrl_msg_id);
 
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
 			// Get the current state of the VM
-			const powerState = await this.powerState();
+			const powerState = await this.computeCall(() => this.powerState());
 
 			// Check if power request has been marked as started
 			if (this.data.stage.current === "requested") {
@@ -567,6 +1238,7 @@ class PowerRequest {
 					start_power: powerState,
 				};
 			}
+			this.data.stage.in_progress.last_power = powerState === undefined ? null : powerState;
 
 			// Setup a Discord embed to show the user
 			let targetTitleWord = undefined;
@@ -597,9 +1269,27 @@ class PowerRequest {
 				fields: [],
 			};
 
-			const sendEmbed = async () => {
+			// Once done the power request has reached its target, so it can't be cancelled anymore
+			const sendEmbed = async (done: boolean = false) => {
 				embed.fields.reverse();
-				await ctrlMsgClient.edit(undefined, embed);
+
+				// Made it through the poll, so any transient errors are over
+				this.data.stage.retry = null;
+
+				if (this.leaseLost(requireLease) === true) {
+					return;
+				}
+
+				// Let users cancel the power request while it is ongoing
+				let components = undefined;
+				if (done === false && this.data.stage.current === "in_progress" && this.data._id !== undefined) {
+					components = this.cancelButtons();
+				}
+
+				await ctrlMsgClient.edit(undefined, embed, components);
+
+				// The control message moves to a regular message once the interaction token expires
+				this.data.ctrl_msg_id = ctrlMsgClient.id;
 			};
 
 			// Duration fields
@@ -607,11 +1297,7 @@ class PowerRequest {
 				// Estimate duration from past invocations
 				let estStr = "";
 				
-				const otherReqs = await this.bot.db.power_requests.find({
-					vm_cfg: this.data.vm_cfg,
-					"stage.current": "success",
-					"stage.in_progress.start_power": this.data.stage.in_progress.start_power,
-				}).limit(10).toArray();
+				const otherReqs = await this.bot.db.power_requests.listRecentSuccesses(this.data.vm_cfg.friendlyName, this.data.stage.in_progress.start_power, 10);
 				
 				if (otherReqs.length > 0) {
 					const totalDiffs = otherReqs.map((doc) => {
@@ -638,6 +1324,19 @@ class PowerRequest {
 			
 			if (powerState !== undefined) {
 				const vmStatePower = vmStateFromPower(powerState);
+
+				// Once running check if the game is ready for players
+				let gameReady = true;
+				if (powerState === VMPowerState.Running && powerState === this.data.target_power && this.data.vm_cfg.readinessProbe !== undefined) {
+					gameReady = await probeGameReady(this.data.vm_cfg.readinessProbe);
+					
+					embed.fields.push({
+						name: "Game Server",
+						value: gameReady === true ? ":sparkles: Ready" : `${waitEmoji} Starting`,
+						inline: true,
+					});
+				}
+				
 				// Show user the current state
 				if (powerState === this.data.target_power) {
 					waitEmoji = ":sparkles:";
@@ -658,13 +1357,22 @@ class PowerRequest {
 
 				// Check if in the final state we requested
 				if (powerState === this.data.target_power) {
+					if (gameReady === false) {
+						embed.description = `Almost there, the ${this.data.vm_cfg.friendlyName} server is on but the game is still starting.`;
+						embed.color = DEC_COLOR_IN_PROGRESS;
+						await sendEmbed();
+						return;
+					}
+					
+					// Show the result before recording it, so if the control message can't be edited the next poll tries again instead of the message showing the power change as ongoing forever
+					embed.description = `All done! The ${this.data.vm_cfg.friendlyName} server is ${vmStatePower.friendlyName} now.`;
+					await sendEmbed(true);
+
 					this.data.stage.current = "success";
 					this.data.stage.success = {
 						time: moment().valueOf(),
 					};
-
-					embed.description = `All done! The ${this.data.vm_cfg.friendlyName} server is ${vmStatePower.friendlyName} now.`;
-					await sendEmbed();
+					await this.notifySubscribers(requireLease);
 					return;
 				}
 			} else {
@@ -678,15 +1386,20 @@ class PowerRequest {
 			}
 
 			// Otherwise perform action to reach requested state
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
+			const compute = this.bot.vmCompute(this.data.vm_cfg);
 			switch (this.data.target_power) {
 				case VMPowerState.Deallocated:
-					await this.bot.azureCompute.virtualMachines.beginDeallocate(this.data.vm_cfg.resourceGroup, this.data.vm_cfg.azureName);
+					await this.computeCall(() => compute.deallocate(this.data.vm_cfg));
 					break;
 				case VMPowerState.Running:
-					await this.bot.azureCompute.virtualMachines.beginStart(this.data.vm_cfg.resourceGroup, this.data.vm_cfg.azureName);
+					await this.computeCall(() => compute.start(this.data.vm_cfg));
 					break;
 				case VMPowerState.Stopped:
-					await this.bot.azureCompute.virtualMachines.beginPowerOff(this.data.vm_cfg.resourceGroup, this.data.vm_cfg.azureName);
+					await this.computeCall(() => compute.powerOff(this.data.vm_cfg));
 					break;
 			}
 
@@ -697,20 +1410,49 @@ class PowerRequest {
 			await sendEmbed();
 			return;
 		} catch (e) {
+			// Failures which aren't the compute provider's, like Discord or database errors, don't mean the power change failed. Try again next poll.
+			if (e instanceof ComputeProviderError === false) {
+				this.bot.log.warn("failed to poll PowerRequest, will try again next poll", { error: e, ctrl_msg_id: this.data.ctrl_msg_id });
+				return;
+			}
+
+			const internal = classifyPowerError((e as ComputeProviderError).cause);
+
+			// Back off and try again later if the error might go away by itself
+			const attempts = retry !== undefined && retry !== null ? retry.attempts + 1 : 1;
+			if (internal.kind === PowerErrorKind.Transient && attempts <= POWER_RETRY_MAX_ATTEMPTS) {
+				const delay = Math.min(POWER_RETRY_BASE_DELAY * Math.pow(2, attempts - 1), POWER_RETRY_MAX_DELAY);
+				this.bot.log.warn("transient error while polling PowerRequest, will retry", { error: internal, attempts, delay, ctrl_msg_id: this.data.ctrl_msg_id });
+
+				this.data.stage.retry = {
+					attempts,
+					next_time: moment().valueOf() + delay,
+					last_error: internal,
+				};
+				return;
+			}
+			
 			// Record error safely
-			this.bot.log.error("failed to poll PowerRequest", { error: e, data: this.data });
+			this.bot.log.error("failed to poll PowerRequest", { error: internal, data: this.data });
 			
 			this.data.stage.current = "error";
 			this.data.stage.error = {
 				time: moment().valueOf(),
-				internal: e,
-				user: "an unexpected error occurred",
+				internal,
+				user: powerErrorUserMessage(internal.kind, this.data.vm_cfg.friendlyName),
 			};
 
+			await this.notifySubscribers(requireLease);
+
 			// See if we can reach the user and tell then something happened
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
 			try {
 				const ctrlMsgClient = new DiscordCtrlMsg(this.bot, this.data.ctrl_msg_id);
 				await ctrlMsgClient.edit(`:warning: Sorry, ${this.data.stage.error.user}.`);
+				this.data.ctrl_msg_id = ctrlMsgClient.id;
 				return;
 			} catch (e) {
 				this.bot.log.error("while trying to inform the user of the failed power request encountered the error", { error: e });
@@ -720,96 +1462,6 @@ class PowerRequest {
 	}
 }
 
-/**
- * Data serialized about a power request in the database.
- */
-interface PowerRequestData {
-	/**
-	 * Database ID of power request.
-	 */
-	_id?: ObjectId,
-	
-	/**
-	 * Identifier of a Discord message which will be used to interact with the user.
-	 */
-	ctrl_msg_id: DiscordCtrlMsgID;
-	
-	/**
-	 * The virtual machine configuration for the server specified by the user.
-	 */
-	vm_cfg: VMConfig;
-
-	/**
-	 * The target virtual machine power state for the request. This must a terminal state.
-	 */
-	target_power: VMPowerState;
-
-	/**
-	 * Details about the current state of the power change process.
-	 */
-	stage: {
-		/**
-		 * The key in this stage object which holds information about the current stage.
-		 */
-		current: string;
-
-		/**
-		 * A variable which is inverted every time the power request is polled. This allows for 2 frame animations. Will be initialized to true.
-		 */
-		flip_flop: boolean,
-
-		/**
-		 * A non-terminal state. This is the first state a power request is set to be in right after it is initialized.
-		 */
-		requested: {},
-
-		/**
-		 * A non-terminal state. Indicates the power change is currently taking place.
-		 */
-		in_progress?: {
-			/**
-			 * The unix time when the progress began.
-			 */
-			time: number;
-
-			/**
-			 * The virtual machine's power state before the power request started any changes.
-			 */
-			start_power: VMPowerState;
-		};
-
-		/**
-		 * A terminal state. Indicates the power change succeeded.
-		 */
-		success?: {
-			/**
-			 * The unix time when the success occurred.
-			 */
-			time: number;
-		};
-
-		/**
-		 * A terminal state. Indicates an error occurred during the power change process.
-		 */
-		error?: {
-			/**
-			 * The unix time when the error occurred.
-			 */
-			time: number;
-			
-			/**
-			 * Internal error details. Not to be shown to the user.
-			 */
-			internal: string;
-
-			/**
-			 * User friendly error message.
-			 */
-			user: string;
-		};
-	};
-}
-
 /**
  * A request from a user to boot a server. Starts the server then automatically stops the server later.
  */
@@ -829,12 +1481,14 @@ class BootRequest {
 	 * @param bot The bot application context.
 	 * @param vmCfg The configuration for the virtual machine to boot.
 	 * @param followUpLocation The Discord channel where follow up messages about this boot request can be sent.
+	 * @param requesterUserID ID of the Discord user who requested the boot.
 	 */
-	constructor(bot: Bot, vmCfg: VMConfig, followUpLocation: DiscordChannelLocation) {
+	constructor(bot: Bot, vmCfg: VMConfig, followUpLocation: DiscordChannelLocation, requesterUserID: string) {
 		this.bot = bot;
 		this.data = {
 			vm_cfg: vmCfg,
 			follow_up_location: followUpLocation,
+			requester_user_id: requesterUserID,
 			stage: {
 				current: BootRequestStage.Requested,
 				requested: {},
@@ -845,31 +1499,31 @@ class BootRequest {
 	/**
 	 * Start the boot process by creating a new PowerRequest which uses a Discord interaction as the control message. Stores the PowerRequest's database ID in the .data.stage.booting.power_request_id field.
 	 * @param ctrlMsgID Identifying information of a Discord message to use as a control message.
-	 * @returns Resolves when the PowerRequest has been created and saved in the database.
+	 * @returns Resolves with true when the PowerRequest has been created and saved in the database, or false if another power request is ongoing on the virtual machine, then nothing was created.
 	 */
-	async initBoot(ctrlMsgID: DiscordCtrlMsgID) {
-		const powerReq = new PowerRequest(this.bot, ctrlMsgID, this.data.vm_cfg, VMPowerState.Running);
-		await powerReq.save();
+	async initBoot(ctrlMsgID: DiscordCtrlMsgID): Promise<boolean> {
+		const powerReq = new PowerRequest(this.bot, ctrlMsgID, this.data.vm_cfg, VMPowerState.Running, {
+			user_id: this.data.requester_user_id,
+			location: this.data.follow_up_location,
+		});
+		if (await powerReq.saveNew() === false) {
+			return false;
+		}
 
 		this.data.stage.current = BootRequestStage.Booting,
 		this.data.stage.booting = {
 			power_request_id: powerReq.data._id,
 		};
+		return true;
 	}
 
 	/**
 	 * Store data in the database.
 	 * @returns Resolves when the data has been saved successfully.
+	 * @throws {SaveConflictError} If the boot request was saved by someone else since it was loaded.
 	 */
 	async save(): Promise<void> {
-		if ("_id" in this.data) {
-			// If a database document already exists
-			await this.bot.db.boot_requests.updateOne({ _id: this.data._id }, { $set: this.data });
-		} else {
-			// No document in database for this boot request, insert one
-			const res = await this.bot.db.boot_requests.insertOne(this.data);
-			this.data._id = res.insertedId;
-		}
+		this.data._id = await this.bot.db.boot_requests.save(this.data);
 	}
 
 	/**
@@ -882,117 +1536,523 @@ class BootRequest {
 			throw new Error(`No database _id field stored for this boot request, so cannot load it from the database`);
 		}
 
-		this.data = await this.bot.db.boot_requests.findOne({ _id: this.data._id });
+		this.data = await this.bot.db.boot_requests.get(this.data._id);
 	}
 
 	/**
-	 * Perform the required action based on the current state of the boot request. 
-	 * @returns Resolves when any actions have been completed. Meant to be real time so should not block for too long.
+	 * Find the boot request which is currently managing a virtual machine.
+	 * @param bot Bot application context.
+	 * @param vmCfg The virtual machine for which to find a boot request.
+	 * @returns Resolves with the ongoing boot request, or null if no boot request is managing the virtual machine.
 	 */
-	async poll(): Promise<void> {
-		// If booting the virtual machine check if done yet
-		// TODO
+	static async Ongoing(bot: Bot, vmCfg: VMConfig): Promise<BootRequest|null> {
+		const data = await bot.db.boot_requests.findOngoingByVM(vmCfg.friendlyName);
+		if (data === null) {
+			return null;
+		}
 
-		// TODO: Set expire time after boot is done
-		// TODO: Send warning message
-		// TODO: Make PowerRequest to shutdown when expired
+		const bootReq = new BootRequest(bot, data.vm_cfg, data.follow_up_location, data.requester_user_id);
+		bootReq.data = data;
+		return bootReq;
 	}
-}
 
-/**
- * Boot request information which is stored in the database.
- */
-interface BootRequestData {
-	/**
-	 * Database ID of boot request.
-	 */
-	_id?: ObjectId,
-	
 	/**
-	 * The virtual machine which the user requested be started.
+	 * Check if this instance lost the poll lease, so it must stop polling because another instance may be polling the boot request too.
+	 * @param requireLease If false then the lease isn't needed and it can't be lost.
+	 * @returns True if the lease is needed but not held.
 	 */
-	vm_cfg: VMConfig;
+	leaseLost(requireLease: boolean): boolean {
+		if (requireLease === false || this.bot.holdsPollLease(POLL_LEASE_MIN_REMAINING) === true) {
+			return false;
+		}
 
-	/**
-	 * Location where follow up messages about this boot request can be sent.
-	 */
-	follow_up_location: DiscordChannelLocation;
+		this.bot.log.warn("lost poll lease while polling boot request, stopping", { _id: this.data._id });
+		return true;
+	}
 
 	/**
-	 * Information about the current state of the boot request lifecycle.
+	 * Perform the required action based on the current state of the boot request. 
+	 * @param [requireLease] If true then compute providers are only called, messages only sent, and the database only changed, while this instance holds the poll lease. If the lease is lost the poll stops and the boot request should not be saved.
+	 * @returns Resolves when any actions have been completed. Meant to be real time so should not block for too long.
 	 */
-	stage: {
-		current: BootRequestStage;
-		
-		requested: {};
-
-		booting?: {
-			/**
-			 * ID of the power request which is starting up the machine.
-			 */
-			power_request_id: ObjectId;
-		};
-
-		running?: {
-			/**
-			 * The unix time at which the boot request will expire and the server will be shut off.
-			 */
-			expire_time: number;
-
-			/**
-			 * Identifying information for a control message which can be used to communicate expiration warning information. If undefined then one has not been sent.
-			 */
-			expire_ctrl_msg_id?: DiscordCtrlMsgID;
-		};
-
-		shutting_down?: {
-			/**
-			 * ID of the power request which is shutting down the virtual machine.
-			 */
-			power_request_id: ObjectId;
-		};
-
-		success?: {};
+	async poll(requireLease: boolean = false): Promise<void> {
+		try {
+			switch (this.data.stage.current) {
+				case BootRequestStage.Booting:
+					await this.pollBooting(requireLease);
+					break;
+				case BootRequestStage.Running:
+					await this.pollRunning(requireLease);
+					break;
+				case BootRequestStage.ShuttingDown:
+					await this.pollShuttingDown(requireLease);
+					break;
+			}
 
-		error?: {};
-	};
-}
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
 
-/**
- * Indicates the stages of a BootRequest's life cycle.
- */
-enum BootRequestStage {
-	/**
-	 * Non-terminal state. The request has just been submitted and initialized but nothing has been done yet.
-	 */
-	Requested = "requested",
+			// Notification subscriptions only last for one boot session
+			if (BOOT_REQUEST_ONGOING_STAGES.indexOf(this.data.stage.current) === -1) {
+				await this.bot.db.notify_subscriptions.deleteByVM(this.data.vm_cfg.friendlyName);
+			}
+		} catch (e) {
+			// Don't move to the error stage, otherwise a temporary failure would leave the server running forever. Instead try again next poll.
+			this.bot.log.error("failed to poll BootRequest", { error: e, data: this.data });
+		}
+	}
 
 	/**
-	 * Non-terminal state. The virtual machine is in the process of booting.
+	 * Check if the power request which is booting the virtual machine has finished. If it has set the time at which the boot request will expire.
+	 * @param requireLease If true then the poll stops once this instance loses the poll lease.
+	 * @returns Resolves when done.
 	 */
-	Booting = "booting",
+	async pollBooting(requireLease: boolean): Promise<void> {
+		const powerReq = await PowerRequest.ByID(this.bot, this.data.stage.booting.power_request_id);
 
-	/**
-	 * Non-terminal state. The virtual machine is running.
-	 */
-	Running = "running",
+		if (powerReq.data.stage.current === "success") {
+			const now = moment();
+			
+			this.data.stage.current = BootRequestStage.Running;
+			this.data.stage.running = {
+				start_time: now.valueOf(),
+				expire_time: now.clone().add(this.data.vm_cfg.sessionLengthMinutes, "minutes").valueOf(),
+			};
 
-	/**
-	 * Non-terminal state. The virtual machine is being shut down.
-	 */
-	ShuttingDown = "shutting_down",
+			// Let users control the session from the boot message
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
 
-	/**
-	 * Terminal state. The boot request concluded successfully.
-	 */
-	Success = "success",
+			try {
+				const expireUnix = Math.round(this.data.stage.running.expire_time / 1000);
+				const ctrlMsg = new DiscordCtrlMsg(this.bot, powerReq.data.ctrl_msg_id);
+				await ctrlMsg.editComponents(this.sessionButtons(), {
+					title: `:rocket: ${this.data.vm_cfg.friendlyName} Server Running`,
+					color: DEC_COLOR_START,
+					description: `The ${this.data.vm_cfg.friendlyName} server will automatically shut down <t:${expireUnix}:R>, at <t:${expireUnix}:t>.`,
+				});
 
-	/**
-	 * Terminal state. The boot request failed.
-	 */
-	Error = "error",
-}
-	
+				// The buttons may have been sent in a new message
+				if (JSON.stringify(ctrlMsg.id) !== JSON.stringify(powerReq.data.ctrl_msg_id)) {
+					if (this.leaseLost(requireLease) === true) {
+						return;
+					}
+
+					powerReq.data.ctrl_msg_id = ctrlMsg.id;
+					await powerReq.save();
+				}
+			} catch (e) {
+				this.bot.log.warn("failed to add session buttons to boot control message", { error: e, _id: this.data._id });
+			}
+		} else if (powerReq.data.stage.current === "error") {
+			// The power request will have already told the user what went wrong
+			this.data.stage.current = BootRequestStage.Error;
+			this.data.stage.error = {
+				time: moment().valueOf(),
+				internal: `boot power request ${powerReq.data._id} failed`,
+				user: powerReq.data.stage.error.user,
+			};
+		} else if (powerReq.data.stage.current === "timed_out") {
+			// The start may still finish, if so manage the session like any other so the server doesn't run forever
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
+			const power = await powerReq.powerState();
+			if (power === VMPowerState.Running || power === VMPowerState.Starting) {
+				const now = moment();
+				this.data.stage.current = BootRequestStage.Running;
+				this.data.stage.running = {
+					start_time: now.valueOf(),
+					expire_time: now.clone().add(this.data.vm_cfg.sessionLengthMinutes, "minutes").valueOf(),
+				};
+				await this.sendSessionContinuesMsg(`The ${this.data.vm_cfg.friendlyName} server took longer than ${powerReq.data.stage.timed_out.timeout_minutes} minutes to start, but it is running or still starting.`, requireLease);
+				return;
+			}
+
+			this.data.stage.current = BootRequestStage.Error;
+			this.data.stage.error = {
+				time: moment().valueOf(),
+				internal: `boot power request ${powerReq.data._id} timed out`,
+				user: `the boot took longer than ${powerReq.data.stage.timed_out.timeout_minutes} minutes`,
+			};
+		} else if (powerReq.data.stage.current === "cancelled") {
+			// Decide once the server is back how it was, or the revert gave up, as it may still be deallocating
+			if (await this.revertOngoing(powerReq) === true) {
+				return;
+			}
+
+			// If the start was already issued and not undone the server may be running, keep managing its session so it still gets shut down
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
+			const power = await powerReq.powerState();
+			if (power === VMPowerState.Running || power === VMPowerState.Starting) {
+				const now = moment();
+				this.data.stage.current = BootRequestStage.Running;
+				this.data.stage.running = {
+					start_time: now.valueOf(),
+					expire_time: now.clone().add(this.data.vm_cfg.sessionLengthMinutes, "minutes").valueOf(),
+				};
+				await this.sendSessionContinuesMsg(`The start of the ${this.data.vm_cfg.friendlyName} server was cancelled after it had begun, so it is running.`, requireLease);
+				return;
+			}
+
+			this.data.stage.current = BootRequestStage.Cancelled;
+			this.data.stage.cancelled = {
+				time: moment().valueOf(),
+			};
+		}
+	}
+
+	/**
+	 * Check if the power request which reverts a cancelled power request is still running.
+	 * @param powerReq The cancelled power request.
+	 * @returns Resolves with true if the cancellation is being reverted and the revert hasn't finished yet.
+	 */
+	async revertOngoing(powerReq: PowerRequest): Promise<boolean> {
+		const revertID = powerReq.data.stage.cancelled.revert_power_request_id;
+		if (revertID === undefined) {
+			return false;
+		}
+
+		const revertReq = await PowerRequest.ByID(this.bot, revertID);
+		return POWER_REQUEST_ONGOING_STAGES.indexOf(revertReq.data.stage.current) !== -1;
+	}
+
+	/**
+	 * Tell users the server is running and when its session will expire, with buttons to control the session. Used when the session continues after a power request was cancelled. Failures are logged, as the session continues either way.
+	 * @param reason Sentence explaining why the server is running.
+	 * @param requireLease If true then the message is only sent while this instance holds the poll lease.
+	 * @returns Resolves when sent.
+	 */
+	async sendSessionContinuesMsg(reason: string, requireLease: boolean): Promise<void> {
+		if (this.leaseLost(requireLease) === true) {
+			return;
+		}
+
+		const expireUnix = Math.round(this.data.stage.running.expire_time / 1000);
+
+		try {
+			await DiscordCtrlMsg.Send(this.bot, this.data.follow_up_location, undefined, {
+				title: `:arrow_forward: ${this.data.vm_cfg.friendlyName} Server Still Running`,
+				color: DEC_COLOR_START,
+				description: `${reason} It will automatically shut down <t:${expireUnix}:R>, at <t:${expireUnix}:t>.`,
+			}, this.sessionButtons());
+		} catch (e) {
+			this.bot.log.warn("failed to tell users the session continues", { error: e, _id: this.data._id });
+		}
+	}
+
+	/**
+	 * Warn users before the boot request expires, then shut down the virtual machine once it does.
+	 * @param requireLease If true then the poll stops once this instance loses the poll lease.
+	 * @returns Resolves when done.
+	 */
+	async pollRunning(requireLease: boolean): Promise<void> {
+		const running = this.data.stage.running;
+		const now = moment().valueOf();
+
+		// Check if someone else already shut down the server
+		const shutdownCount = await this.bot.db.power_requests.countShutdownsSince(this.data.vm_cfg.friendlyName, running.start_time);
+		if (shutdownCount > 0) {
+			this.data.stage.current = BootRequestStage.Success;
+			this.data.stage.success = {
+				time: now,
+			};
+			return;
+		}
+
+		// End the session early if quiet hours begin before it expires
+		const quietStart = nextQuietHoursStart(this.data.vm_cfg.quietHours, now);
+		if (quietStart !== null && quietStart < running.expire_time) {
+			running.expire_time = quietStart;
+			running.quiet_hours = true;
+
+			// Show the new time on the warning message if it was already sent
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
+			if (running.expire_ctrl_msg_id !== undefined && running.expire_ctrl_msg_id !== null) {
+				const ctrlMsg = new DiscordCtrlMsg(this.bot, running.expire_ctrl_msg_id);
+				await ctrlMsg.edit(undefined, this.expireWarnEmbed(), this.sessionButtons());
+			}
+		}
+
+		if (now >= running.expire_time) {
+			// Shutdown the server, re-using the warning message if one was sent. A new message is kept as the warning, so it is re-used if the shutdown has to be tried again.
+			await this.shutdown(async () => {
+				if (running.expire_ctrl_msg_id === undefined || running.expire_ctrl_msg_id === null) {
+					const ctrlMsg = await DiscordCtrlMsg.Send(this.bot, this.data.follow_up_location, undefined, this.expireWarnEmbed());
+					running.expire_ctrl_msg_id = ctrlMsg.id;
+				}
+
+				return running.expire_ctrl_msg_id;
+			}, null, requireLease);
+			return;
+		}
+
+		if ((running.expire_ctrl_msg_id === undefined || running.expire_ctrl_msg_id === null) && now >= running.expire_time - BOOT_EXPIRE_WARN_TIME) {
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
+			const ctrlMsg = await DiscordCtrlMsg.Send(this.bot, this.data.follow_up_location, undefined, this.expireWarnEmbed(), this.sessionButtons());
+			running.expire_ctrl_msg_id = ctrlMsg.id;
+		}
+
+		await this.pollVoiceEmpty(requireLease);
+		if (this.data.stage.current !== BootRequestStage.Running) {
+			return;
+		}
+
+		await this.pollPlayersIdle(requireLease);
+	}
+
+	/**
+	 * Shut down the virtual machine if no one has played on its game server for too long. Queries the game server at most once every PLAYER_COUNT_INTERVAL.
+	 * @param requireLease If true then the shutdown is only started while this instance holds the poll lease.
+	 * @returns Resolves when done.
+	 */
+	async pollPlayersIdle(requireLease: boolean): Promise<void> {
+		const idleCfg = this.data.vm_cfg.idleShutdown;
+		if (idleCfg === undefined) {
+			return;
+		}
+
+		const running = this.data.stage.running;
+		const now = moment().valueOf();
+
+		if (running.players_checked_time !== undefined && now - running.players_checked_time < PLAYER_COUNT_INTERVAL) {
+			return;
+		}
+		running.players_checked_time = now;
+
+		let players: number;
+		try {
+			players = (await queryGameServer(idleCfg.query)).players;
+		} catch (e) {
+			// The game might not have started yet or could have crashed, either way we don't know if anyone is playing
+			this.bot.log.debug("failed to query game server for player count", { error: e, vm_cfg: this.data.vm_cfg });
+			return;
+		}
+
+		if (players > 0) {
+			running.players_idle_since = null;
+			return;
+		}
+
+		if (running.players_idle_since === undefined || running.players_idle_since === null) {
+			running.players_idle_since = now;
+		}
+
+		if (moment(running.players_idle_since).add(idleCfg.idleMinutes, "minutes").valueOf() <= now) {
+			await this.shutdown(async () => {
+				const ctrlMsg = await DiscordCtrlMsg.Send(this.bot, this.data.follow_up_location, undefined, {
+					title: `:zzz: ${this.data.vm_cfg.friendlyName} Server Shutting Down`,
+					color: DEC_COLOR_STOP,
+					description: `No one has played on the ${this.data.vm_cfg.friendlyName} server for ${idleCfg.idleMinutes} minutes, so it is being shut down.`,
+				});
+				return ctrlMsg.id;
+			}, null, requireLease);
+		}
+	}
+
+	/**
+	 * Shut down the virtual machine if its voice channels have been empty for too long. Warns users when the voice channels first become empty and lets them know if the shutdown was cancelled because someone re-joined.
+	 * @param requireLease If true then messages are only sent, and the shutdown only started, while this instance holds the poll lease.
+	 * @returns Resolves when done.
+	 */
+	async pollVoiceEmpty(requireLease: boolean): Promise<void> {
+		const running = this.data.stage.running;
+		const emptySince = this.bot.voiceEmptySince.get(this.data.vm_cfg.friendlyName);
+
+		if (emptySince === undefined) {
+			// Cancel shutdown if voice chat is no longer empty
+			if (running.voice_empty_ctrl_msg_id !== undefined && running.voice_empty_ctrl_msg_id !== null) {
+				if (this.leaseLost(requireLease) === true) {
+					return;
+				}
+
+				const ctrlMsg = new DiscordCtrlMsg(this.bot, running.voice_empty_ctrl_msg_id);
+				await ctrlMsg.edit(undefined, {
+					title: `:loud_sound: ${this.data.vm_cfg.friendlyName} Server Shutdown Cancelled`,
+					color: DEC_COLOR_START,
+					description: `Someone joined voice chat, so the ${this.data.vm_cfg.friendlyName} server will keep running.`,
+				});
+				running.voice_empty_ctrl_msg_id = null;
+			}
+			return;
+		}
+
+		// Channels which were already empty when the server finished booting, or its session resumed, only count from then, so users get the full grace period to join
+		const countdownStart = Math.max(emptySince, running.start_time, running.resumed_time !== undefined ? running.resumed_time : 0);
+		const shutdownTime = moment(countdownStart).add(this.data.vm_cfg.voiceEmptyGraceMinutes, "minutes");
+
+		if (running.voice_empty_ctrl_msg_id === undefined || running.voice_empty_ctrl_msg_id === null) {
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
+			const shutdownUnix = shutdownTime.unix();
+			const channelMentions = this.data.vm_cfg.voiceChannelIDs.map((id) => `<#${id}>`).join(", ");
+			
+			const ctrlMsg = await DiscordCtrlMsg.Send(this.bot, this.data.follow_up_location, undefined, {
+				title: `:mute: ${this.data.vm_cfg.friendlyName} Server Shutting Down Soon`,
+				color: DEC_COLOR_STOP,
+				description: `Everyone left voice chat, so the ${this.data.vm_cfg.friendlyName} server will automatically shut down <t:${shutdownUnix}:R>. Join ${channelMentions} to keep it running.`,
+			});
+			running.voice_empty_ctrl_msg_id = ctrlMsg.id;
+		}
+
+		if (moment().isSameOrAfter(shutdownTime)) {
+			await this.shutdown(async () => running.voice_empty_ctrl_msg_id, null, requireLease);
+		}
+	}
+
+	/**
+	 * Create a power request which shuts down the virtual machine and move to the shutting down stage. Does nothing if other power requests are currently running on the virtual machine, so this should be called again on the next poll.
+	 * @param ctrlMsgID Called to get the control message which the power request will use to show its progress. Only called if no other power request is ongoing on the virtual machine, it may still be called without the shutdown starting if another power request is saved at the same time.
+	 * @param requester The Discord user who asked for the shutdown, or null if the bot is shutting down the virtual machine itself.
+	 * @param [requireLease] If true then the power request is only created while this instance holds the poll lease.
+	 * @returns Resolves when the power request has been saved in the database.
+	 */
+	async shutdown(ctrlMsgID: () => Promise<DiscordCtrlMsgID>, requester: DiscordRequester|null, requireLease: boolean = false): Promise<void> {
+		// Wait for any other commands running on the server to finish, including ones which haven't started changing it yet
+		if (await this.bot.db.power_requests.findOngoingByVM(this.data.vm_cfg.friendlyName) !== null) {
+			return;
+		}
+
+		if (this.leaseLost(requireLease) === true) {
+			return;
+		}
+
+		const powerReq = new PowerRequest(this.bot, await ctrlMsgID(), this.data.vm_cfg, VMPowerState.Deallocated, requester);
+		if (await powerReq.saveNew() === false) {
+			return;
+		}
+
+		this.data.stage.current = BootRequestStage.ShuttingDown;
+		this.data.stage.shutting_down = {
+			power_request_id: powerReq.data._id,
+		};
+	}
+
+	/**
+	 * Check if the power request which is shutting down the virtual machine has finished.
+	 * @param requireLease If true then the poll stops once this instance loses the poll lease.
+	 * @returns Resolves when done.
+	 */
+	async pollShuttingDown(requireLease: boolean): Promise<void> {
+		const powerReq = await PowerRequest.ByID(this.bot, this.data.stage.shutting_down.power_request_id);
+
+		if (powerReq.data.stage.current === "success") {
+			this.data.stage.current = BootRequestStage.Success;
+			this.data.stage.success = {
+				time: moment().valueOf(),
+			};
+		} else if (powerReq.data.stage.current === "error") {
+			this.data.stage.current = BootRequestStage.Error;
+			this.data.stage.error = {
+				time: moment().valueOf(),
+				internal: `shutdown power request ${powerReq.data._id} failed`,
+				user: powerReq.data.stage.error.user,
+			};
+		} else if (powerReq.data.stage.current === "timed_out") {
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
+			const power = await powerReq.powerState();
+			if (power === VMPowerState.Deallocated || power === VMPowerState.Stopped) {
+				// The shutdown finished after the power request gave up
+				this.data.stage.current = BootRequestStage.Success;
+				this.data.stage.success = {
+					time: moment().valueOf(),
+				};
+				return;
+			}
+
+			// The server may still be running, expire the session again straight away so the shutdown is retried
+			const running = this.data.stage.running;
+			running.expire_time = moment().valueOf();
+			running.expire_ctrl_msg_id = null;
+			running.voice_empty_ctrl_msg_id = null;
+			this.data.stage.current = BootRequestStage.Running;
+		} else if (powerReq.data.stage.current === "cancelled") {
+			// Decide once the server is back how it was, or the revert gave up, as it may still be starting
+			if (await this.revertOngoing(powerReq) === true) {
+				return;
+			}
+
+			// The server is probably still running, start a new session so it still gets shut down eventually
+			if (this.leaseLost(requireLease) === true) {
+				return;
+			}
+
+			const power = await powerReq.powerState();
+			if (power === VMPowerState.Running || power === VMPowerState.Starting) {
+				const now = moment();
+				const running = this.data.stage.running;
+				running.expire_time = now.clone().add(this.data.vm_cfg.sessionLengthMinutes, "minutes").valueOf();
+				running.expire_ctrl_msg_id = null;
+				running.voice_empty_ctrl_msg_id = null;
+				running.players_idle_since = null;
+				running.resumed_time = now.valueOf();
+				this.data.stage.current = BootRequestStage.Running;
+				await this.sendSessionContinuesMsg(`The shutdown of the ${this.data.vm_cfg.friendlyName} server was cancelled.`, requireLease);
+				return;
+			}
+
+			this.data.stage.current = BootRequestStage.Cancelled;
+			this.data.stage.cancelled = {
+				time: moment().valueOf(),
+			};
+		}
+	}
+
+	/**
+	 * Build buttons which let users extend the session or shut down the virtual machine. The boot request must have been saved in the database.
+	 * @returns Discord message component rows.
+	 */
+	sessionButtons(): MessageActionRow[] {
+		return [
+			new MessageActionRow().addComponents(
+				new MessageButton()
+					.setCustomId(`${EXTEND_BUTTON_ID}:${this.data._id}`)
+					.setLabel(`Extend ${EXTEND_BUTTON_MINUTES / 60}h`)
+					.setStyle("PRIMARY"),
+				new MessageButton()
+					.setCustomId(`${SHUTDOWN_BUTTON_ID}:${this.data._id}`)
+					.setLabel("Shut down now")
+					.setStyle("DANGER"),
+			),
+		];
+	}
+
+	/**
+	 * Build an embed which warns users the virtual machine will be shut down when the boot request expires.
+	 * @returns Discord embed.
+	 */
+	expireWarnEmbed(): MessageEmbedOptions {
+		const expireUnix = Math.round(this.data.stage.running.expire_time / 1000);
+		
+		let description = `The ${this.data.vm_cfg.friendlyName} server will automatically shut down <t:${expireUnix}:R>, at <t:${expireUnix}:t>.`;
+		if (this.data.stage.running.quiet_hours === true) {
+			description += " This is when its quiet hours begin.";
+		}
+
+		return {
+			title: `:alarm_clock: ${this.data.vm_cfg.friendlyName} Server Shutting Down Soon`,
+			color: DEC_COLOR_STOP,
+			description,
+		};
+	}
+}
 
 /**
  * Provides bot functionality. The init() method must be called before anything else can be called.
@@ -1000,12 +2060,86 @@ enum BootRequestStage {
 class Bot {
 	cfg: BotConfig;
 	log: winston.Logger;
-	azureCompute: ComputeManagementClient;
-	mongoClient: MongoClient;
-	mongoDB: MongoDB;
+	computeProviders: Map<ComputeProviderType, ComputeProvider>;
 	db: BotDB;
 	discord: DiscordClient;
 	pollOngoingInterval: NodeJS.Timeout;
+	pollLeaseInterval: NodeJS.Timeout;
+
+	/**
+	 * Path of the configuration file which is being watched for changes. Null if the configuration file is not being watched.
+	 */
+	cfgFile: string|null;
+
+	/**
+	 * Must be held while reloading the configuration. Ensures changes made in quick succession are applied in order.
+	 */
+	configLock: AsyncLock;
+
+	/**
+	 * Identifies this bot instance when acquiring leases.
+	 */
+	instanceID: string;
+
+	/**
+	 * The unix time at which this instance's poll lease expires. Null if this instance does not hold the lease.
+	 */
+	pollLeaseExpireTime: number|null;
+
+	/**
+	 * True while pollOngoing() is running. Stops a new poll cycle starting before the last one finished.
+	 */
+	pollOngoingRunning: boolean;
+
+	/**
+	 * The unix time at which the bot was created.
+	 */
+	startTime: number;
+
+	/**
+	 * The unix time at which the last poll cycle finished without an error. Null if no poll cycle has succeeded yet.
+	 */
+	lastPollTime: number|null;
+
+	/**
+	 * Serves health checks and metrics. Null if the http configuration is not provided.
+	 */
+	httpServer: http.Server|null;
+
+	/**
+	 * Records how long poll cycles take, in seconds.
+	 */
+	pollCycleDuration: Histogram;
+
+	/**
+	 * Records how long compute provider calls take, in seconds.
+	 */
+	computeCallDuration: Histogram;
+
+	/**
+	 * Counts failed compute provider calls.
+	 */
+	computeCallErrors: Counter;
+
+	/**
+	 * The last known power state of each virtual machine and the unix time it was found at. Keys are virtual machine friendly names. Undefined power states could not be determined.
+	 */
+	vmPowerStates: Map<string, { power: VMPowerState|undefined, time: number }>;
+
+	/**
+	 * The unix time at which all the voice channels of a virtual machine became empty. Keys are virtual machine friendly names. If a virtual machine is not in this map then its voice channels are not empty.
+	 */
+	voiceEmptySince: Map<string, number>;
+
+	/**
+	 * Must be held while loading, modifying, and saving boot requests. Ensures commands which modify boot requests don't have their changes overwritten by pollOngoing().
+	 */
+	bootRequestsLock: AsyncLock;
+
+	/**
+	 * Must be held while loading, modifying, and saving ongoing power requests. Ensures commands which modify power requests don't have their changes overwritten by pollOngoing().
+	 */
+	powerRequestsLock: AsyncLock;
 	
   /**
 	 * Creates a partially setup Bot class. Before any other methods are run Bot.init() must be called.
@@ -1014,6 +2148,22 @@ class Bot {
   constructor(cfg: BotConfig, log) {
 	  this.cfg = cfg;
 		this.log = log.child({});
+		this.voiceEmptySince = new Map();
+		this.bootRequestsLock = new AsyncLock();
+		this.powerRequestsLock = new AsyncLock();
+		this.cfgFile = null;
+		this.configLock = new AsyncLock();
+		this.instanceID = randomUUID();
+		this.pollLeaseExpireTime = null;
+		this.pollOngoingRunning = false;
+		this.startTime = moment().valueOf();
+		this.lastPollTime = null;
+		this.httpServer = null;
+		this.vmPowerStates = new Map();
+
+		this.pollCycleDuration = new Histogram("discord_azure_boot_poll_cycle_duration_seconds", "How long polling scheduled jobs, ongoing power requests, and ongoing boot requests takes.", POLL_CYCLE_DURATION_BUCKETS);
+		this.computeCallDuration = new Histogram("discord_azure_boot_compute_call_duration_seconds", "How long calls to the cloud providers which control virtual machines take.", COMPUTE_CALL_DURATION_BUCKETS);
+		this.computeCallErrors = new Counter("discord_azure_boot_compute_call_errors_total", "Number of failed calls to the cloud providers which control virtual machines.");
   }
 
   /**
@@ -1021,34 +2171,32 @@ class Bot {
 	 * @throws {Error} If the bot fails to initialize.
 	 */
   async init() {
-	  // Authenticate with the Azure API
-		this.log.info("trying to authenticate with azure");
+		// Setup the providers which control virtual machines
+		this.computeProviders = new Map();
+		this.setComputeProvider("simulator", new SimulatorComputeProvider(this.log));
+		this.setComputeProvider("wake_on_lan", new WakeOnLANComputeProvider(this.log));
 		
-		const azureCreds = new ClientSecretCredential(this.cfg.azure.directoryID, this.cfg.azure.applicationID, this.cfg.azure.accessToken);
+		if (this.cfg.azure !== undefined) {
+			// Authenticate with the Azure API
+			this.log.info("trying to authenticate with azure");
+			
+			const azureCreds = azureCredential(this.cfg.azure);
 
-	  this.azureCompute = new ComputeManagementClient(azureCreds, this.cfg.azure.subscriptionID);
-		this.log.info("authenticated with azure");
+			this.setComputeProvider("azure", new AzureComputeProvider(this.log, azureCreds, this.cfg.azure.subscriptionID));
+			this.log.info("authenticated with azure");
+		}
 
 	  // Ensure all the virtual machines the user specified actually exist
 	  try {
 		  await Promise.all(this.cfg.vms.map(async (vm) => {
-				await this.azureCompute.virtualMachines.get(vm.resourceGroup, vm.azureName);
+				await this.vmCompute(vm).checkExists(vm);
 		  }));
 	  } catch (e) {
 		  throw new Error(`Failed to find all virtual machines specified in the configuration: ${e}`);
 	  }
 
-	  // Connect to MongoDB
-		this.log.info("trying to connect to mongodb");
-	  this.mongoClient = new MongoClient(this.cfg.mongodb.connectionURI);
-	  await this.mongoClient.connect();
-		this.mongoDB = this.mongoClient.db(this.cfg.mongodb.dbName);
-		this.db = {
-			power_requests: this.mongoDB.collection("power_requests"),
-			boot_requests: this.mongoDB.collection("boot_requests"),
-		};
-		
-		this.log.info("connected to mongodb");
+		// Connect to the database
+		this.db = await connectBotDB(this.cfg, this.log);
 
 		// Connect to Discord
 		const discordOAuthURL = encodeURI(`https://discord.com/api/oauth2/authorize?client_id=${this.cfg.discord.applicationID}&scope=bot applications.commands`);
@@ -1058,6 +2206,7 @@ class Bot {
 		this.discord = new DiscordClient({
 			intents: [
 				DiscordIntents.FLAGS.GUILDS,
+				DiscordIntents.FLAGS.GUILD_VOICE_STATES,
 			],
 		});
 
@@ -1074,16 +2223,52 @@ class Bot {
 			discordReadyProm.resolve();
 		});
 
-		this.discord.on("interactionCreate", this.onDiscordCmd.bind(this));
+		this.discord.on("interactionCreate", (interaction) => {
+			this.onDiscordCmd(interaction)
+				.catch((e) => this.log.error("failed to handle Discord interaction", { error: e }));
+		});
+		this.discord.on("voiceStateUpdate", this.onDiscordVoiceState.bind(this));
 		this.discord.login(this.cfg.discord.botToken);
 		await discordReadyProm.promise;
 		this.log.info("connected to discord");
 
+		// Find which voice channels are already empty
+		this.cfg.vms.forEach((vm) => this.updateVoiceEmpty(vm));
+
 		// Setup Discord slash commands
-		if (this.cfg.discord.permissionRoleID !== null) {
+		if (this.cfg.discord.permissionRoleID !== undefined) {
 			this.log.info(`restricting Discord commands to users with role ID ${this.cfg.discord.permissionRoleID}`);
 		}
 		
+		await this.registerCommands();
+
+		// Setup poll ongoing interval, only the instance with the poll lease does any work
+		await this.renewPollLease();
+		this.pollLeaseInterval = setInterval(this.renewPollLease.bind(this), POLL_LEASE_RENEW_INTERVAL);
+		this.pollOngoingInterval = setInterval(this.pollOngoing.bind(this), ONGOING_POWER_REQUEST_INTERVAL);
+		this.log.info("setup polling", { instance_id: this.instanceID });
+
+		// Serve health checks and metrics
+		if (this.cfg.http !== undefined) {
+			await this.startHTTPServer();
+		}
+  }
+
+	/**
+	 * Setup a compute provider, recording its calls in metrics.
+	 * @param type The type of virtual machines the provider controls.
+	 * @param provider The compute provider.
+	 */
+	setComputeProvider(type: ComputeProviderType, provider: ComputeProvider) {
+		this.computeProviders.set(type, new InstrumentedComputeProvider(provider, type, this.computeCallDuration, this.computeCallErrors));
+	}
+
+	/**
+	 * Register the Discord slash commands, with choices for each virtual machine in the configuration.
+	 * @returns Resolves when registered.
+	 * @throws {Error} If the configured guild could not be found or registration failed.
+	 */
+	async registerCommands(): Promise<void> {
 		const VM_CHOICES = this.cfg.vms.map((vm) => {
 			return {
 				name: vm.friendlyName,
@@ -1101,7 +2286,13 @@ class Bot {
 						.setDescription("The server to start")
 						.setRequired(true)
 						.addChoices(...VM_CHOICES)
-  			),
+  			)
+				.addBooleanOption((opt) =>
+					opt
+						.setName("notify")
+						.setDescription("Get a direct message when the server is ready")
+						.setRequired(false)
+				),
 			new DiscordSlashCommandBuilder()
 				.setName(SHUTDOWN_CMD_NAME)
 				.setDescription("Turn off a gamer server")
@@ -1112,15 +2303,191 @@ class Bot {
 						.setRequired(true)
 						.addChoices(...VM_CHOICES)
 				),
-		].map((cmd) => cmd.toJSON());
-		
-		const discordREST = new DiscordREST({ version: "9" }).setToken(this.cfg.discord.botToken);
-		if (this.cfg.discord.guildID) {
-			// Using guild specific commands
-			// Sanity check that the specified guild exists
-			const guild = this.discord.guilds.cache.get(this.cfg.discord.guildID);
-			
-			if (guild === undefined) {
+			new DiscordSlashCommandBuilder()
+				.setName(EXTEND_CMD_NAME)
+				.setDescription("Keep a game server running for longer")
+				.addStringOption((opt) => 
+					opt
+						.setName("server")
+						.setDescription("The server to keep running")
+						.setRequired(true)
+						.addChoices(...VM_CHOICES)
+				)
+				.addIntegerOption((opt) =>
+					opt
+						.setName("minutes")
+						.setDescription("The number of minutes to add to the server's session")
+						.setRequired(true)
+						.setMinValue(1)
+				),
+			new DiscordSlashCommandBuilder()
+				.setName(STATUS_CMD_NAME)
+				.setDescription("Show the status of all game servers"),
+			new DiscordSlashCommandBuilder()
+				.setName(HISTORY_CMD_NAME)
+				.setDescription("Show past requests to start and stop game servers")
+				.addStringOption((opt) =>
+					opt
+						.setName("server")
+						.setDescription("Only show requests for this server")
+						.setRequired(false)
+						.addChoices(...VM_CHOICES)
+				)
+				.addUserOption((opt) =>
+					opt
+						.setName("user")
+						.setDescription("Only show requests made by this user")
+						.setRequired(false)
+				)
+				.addIntegerOption((opt) =>
+					opt
+						.setName("page")
+						.setDescription("The page of results to show, newest first")
+						.setRequired(false)
+						.setMinValue(1)
+				)
+				.addStringOption((opt) =>
+					opt
+						.setName("export")
+						.setDescription("Attach all matching requests as a file")
+						.setRequired(false)
+						.addChoices(
+							{ name: "CSV", value: "csv" },
+							{ name: "JSON", value: "json" },
+						)
+				),
+			new DiscordSlashCommandBuilder()
+				.setName(COST_CMD_NAME)
+				.setDescription("Show how long game servers ran and what they cost each month")
+				.addIntegerOption((opt) =>
+					opt
+						.setName("months")
+						.setDescription("The number of months to show, including this month")
+						.setRequired(false)
+						.setMinValue(1)
+						.setMaxValue(12)
+				),
+			new DiscordSlashCommandBuilder()
+				.setName(LOCK_CMD_NAME)
+				.setDescription("Stop a game server from being started, like during maintenance")
+				.addStringOption((opt) =>
+					opt
+						.setName("server")
+						.setDescription("The server to lock")
+						.setRequired(true)
+						.addChoices(...VM_CHOICES)
+				)
+				.addStringOption((opt) =>
+					opt
+						.setName("reason")
+						.setDescription("Why the server is locked, shown to anyone who tries to start it")
+						.setRequired(true)
+				)
+				.addIntegerOption((opt) =>
+					opt
+						.setName("minutes")
+						.setDescription("Unlock the server automatically after this many minutes")
+						.setRequired(false)
+						.setMinValue(1)
+				),
+			new DiscordSlashCommandBuilder()
+				.setName(UNLOCK_CMD_NAME)
+				.setDescription("Allow a locked game server to be started again")
+				.addStringOption((opt) =>
+					opt
+						.setName("server")
+						.setDescription("The server to unlock")
+						.setRequired(true)
+						.addChoices(...VM_CHOICES)
+				),
+			new DiscordSlashCommandBuilder()
+				.setName(CANCEL_CMD_NAME)
+				.setDescription("Stop a game server which is starting or shutting down")
+				.addStringOption((opt) =>
+					opt
+						.setName("server")
+						.setDescription("The server to stop starting or shutting down")
+						.setRequired(true)
+						.addChoices(...VM_CHOICES)
+				)
+				.addBooleanOption((opt) =>
+					opt
+						.setName("revert")
+						.setDescription("Return the server to how it was before, like shutting it down if it was starting")
+						.setRequired(false)
+				),
+			new DiscordSlashCommandBuilder()
+				.setName(NOTIFY_CMD_NAME)
+				.setDescription("Get a direct message when a game server finishes starting or stopping, run again to stop")
+				.addStringOption((opt) =>
+					opt
+						.setName("server")
+						.setDescription("The server to get notifications about")
+						.setRequired(true)
+						.addChoices(...VM_CHOICES)
+				),
+			new DiscordSlashCommandBuilder()
+				.setName(SCHEDULE_CMD_NAME)
+				.setDescription("Start or stop game servers automatically at set times")
+				.addSubcommand((sub) =>
+					sub
+						.setName("add")
+						.setDescription("Schedule a game server to start or stop")
+						.addStringOption((opt) =>
+							opt
+								.setName("server")
+								.setDescription("The server to start or stop")
+								.setRequired(true)
+								.addChoices(...VM_CHOICES)
+						)
+						.addStringOption((opt) =>
+							opt
+								.setName("action")
+								.setDescription("Whether to start or stop the server")
+								.setRequired(true)
+								.addChoices(
+									{ name: "Boot", value: "boot" },
+									{ name: "Shutdown", value: "shutdown" },
+								)
+						)
+						.addStringOption((opt) =>
+							opt
+								.setName("at")
+								.setDescription("Run once at this time, like 2024-05-31 19:30")
+								.setRequired(false)
+						)
+						.addStringOption((opt) =>
+							opt
+								.setName("cron")
+								.setDescription("Run repeatedly when this cron expression matches, like 30 19 * * 5 for every Friday at 19:30")
+								.setRequired(false)
+						)
+				)
+				.addSubcommand((sub) =>
+					sub
+						.setName("list")
+						.setDescription("Show scheduled game server starts and stops")
+				)
+				.addSubcommand((sub) =>
+					sub
+						.setName("remove")
+						.setDescription("Cancel a scheduled game server start or stop")
+						.addStringOption((opt) =>
+							opt
+								.setName("id")
+								.setDescription("The ID of the scheduled job, shown by /schedule list")
+								.setRequired(true)
+						)
+				),
+		].map((cmd) => cmd.toJSON());
+		
+		const discordREST = new DiscordREST({ version: "9" }).setToken(this.cfg.discord.botToken);
+		if (this.cfg.discord.guildID) {
+			// Using guild specific commands
+			// Sanity check that the specified guild exists
+			const guild = this.discord.guilds.cache.get(this.cfg.discord.guildID);
+			
+			if (guild === undefined) {
 				throw new Error(`Could not find guild with ID ${this.cfg.discord.guildID}, maybe the bot doesn't have access to this guild (use the invitation link in the logs above)`);
 			}
 			
@@ -1138,11 +2505,92 @@ class Bot {
 			);
 		}
 		this.log.info("registered discord slash commands");
+	}
 
-		// Setup poll ongoing interval
-		this.pollOngoingInterval = setInterval(this.pollOngoing.bind(this), ONGOING_POWER_REQUEST_INTERVAL);
-		this.log.info("setup polling");
-  }
+	/**
+	 * Reload the configuration whenever its file changes.
+	 * @param file Path of the configuration file.
+	 */
+	watchConfig(file: string): void {
+		this.cfgFile = file;
+		watchFile(file, { interval: CONFIG_WATCH_INTERVAL }, (curr, prev) => {
+			if (curr.mtimeMs === prev.mtimeMs) {
+				return;
+			}
+
+			this.log.info("configuration file changed, reloading");
+			this.reloadConfig()
+				.catch((e) => this.log.error("failed to reload configuration", { error: e }));
+		});
+	}
+
+	/**
+	 * Load and validate the configuration file, then replace the configuration in use. Slash commands are re-registered if the virtual machine choices changed. If the new configuration is invalid the error is logged and the old configuration is kept.
+	 * @returns Resolves when done.
+	 */
+	async reloadConfig(): Promise<void> {
+		await this.configLock.run(async () => {
+			let newCfg: BotConfig;
+			try {
+				newCfg = await loadConfig(this.cfgFile);
+			} catch (e) {
+				this.log.error("new configuration is invalid, keeping the old configuration", { error: e instanceof ZodError ? configIssues(e) : e });
+				return;
+			}
+
+			const restartChanges = restartRequiredChanges(this.cfg, newCfg);
+			if (restartChanges.length > 0) {
+				this.log.error(`new configuration changes ${restartChanges.join(", ")} which require a restart, keeping the old configuration`);
+				return;
+			}
+
+			// Ensure any added or changed virtual machines actually exist
+			const oldVMs = new Map(this.cfg.vms.map((vm) => [ vm.friendlyName, JSON.stringify(vm) ]));
+			const changedVMs = newCfg.vms.filter((vm) => oldVMs.get(vm.friendlyName) !== JSON.stringify(vm));
+			try {
+				await Promise.all(changedVMs.map(async (vm) => {
+					await this.vmCompute(vm).checkExists(vm);
+				}));
+			} catch (e) {
+				this.log.error("failed to find all virtual machines in the new configuration, keeping the old configuration", { error: e });
+				return;
+			}
+
+			const oldChoices = this.cfg.vms.map((vm) => vm.friendlyName);
+			const newChoices = newCfg.vms.map((vm) => vm.friendlyName);
+
+			this.cfg = newCfg;
+			oldChoices.filter((name) => newChoices.indexOf(name) === -1).forEach((name) => this.voiceEmptySince.delete(name));
+			this.cfg.vms.forEach((vm) => this.updateVoiceEmpty(vm));
+			this.log.info("reloaded configuration", {
+				changed_vms: changedVMs.map((vm) => vm.friendlyName),
+				removed_vms: oldChoices.filter((name) => newChoices.indexOf(name) === -1),
+			});
+
+			if (JSON.stringify(oldChoices) !== JSON.stringify(newChoices)) {
+				try {
+					await this.registerCommands();
+				} catch (e) {
+					this.log.error("failed to register discord slash commands for the new configuration", { error: e });
+				}
+			}
+		});
+	}
+
+	/**
+	 * Get the compute provider which controls a virtual machine.
+	 * @param vmCfg The virtual machine.
+	 * @returns The compute provider for the virtual machine.
+	 * @throws {Error} If the virtual machine's provider has not been setup.
+	 */
+	vmCompute(vmCfg: VMConfig): ComputeProvider {
+		const compute = this.computeProviders.get(vmCfg.provider);
+		if (compute === undefined) {
+			throw new Error(`the "${vmCfg.provider}" compute provider used by the ${vmCfg.friendlyName} server is not setup`);
+		}
+
+		return compute;
+	}
 
   /**
 	 * Gracefully stop.
@@ -1150,31 +2598,73 @@ class Bot {
   async cleanup() {
 		// Stop poll ongoing interval
 		clearInterval(this.pollOngoingInterval);
+
+		if (this.httpServer !== null) {
+			const server = this.httpServer;
+			await new Promise<void>((resolve) => server.close(() => resolve()));
+		}
+
+		if (this.cfgFile !== null) {
+			unwatchFile(this.cfgFile);
+		}
+
+		// Let another instance take over polling straight away
+		clearInterval(this.pollLeaseInterval);
+		try {
+			await this.db.leases.release(POLL_LEASE_NAME, this.instanceID);
+		} catch (e) {
+			this.log.warn("failed to release poll lease", { error: e });
+		}
 		
-	  // Disconnect from MongoDB
-	  this.mongoClient.close();
+	  // Disconnect from the database
+	  await this.db.close();
   }
 
 	/**
-	 * Runs whenever a Discord slash command is invoked.
-	 * @param {Discord Interaction} interaction Discord interaction which was just created by a user invoking a bot's slash command.
+	 * Runs whenever a Discord slash command is invoked or a button is clicked.
+	 * @param {Discord Interaction} interaction Discord interaction which was just created by a user invoking a bot's slash command or clicking a button.
 	 */
 	async onDiscordCmd(interaction) {
-		// Only handle slash commands
-		if (interaction.isCommand() !== true) {
+		// Only handle slash commands and buttons
+		if (interaction.isCommand() !== true && interaction.isButton() !== true) {
 			return;
 		}
 
 		// Check is in the guild we are running for
-		if (this.cfg.discord.guildID !== null && interaction.guildId !== this.cfg.discord.guildID) {
+		if (this.cfg.discord.guildID !== undefined && interaction.guildId !== this.cfg.discord.guildID) {
 			this.log.warn(`Received interaction for a guild we are not handling: ${interaction.guildId}`);
 			return;
 		}
 
-		// Check user has required permissions
-		if (this.cfg.discord.permissionRoleID !== null && interaction.member.roles.cache.has(this.cfg.discord.permissionRoleID) === false) {
-			// If configured check if user has permissions to invoke the command
-			await interaction.reply("Sorry, you do not have permission to use this command.");
+		if (interaction.isButton() === true) {
+			await this.onDiscordButton(interaction);
+			return;
+		}
+
+		// The server may have been removed from the configuration since the command's choices were registered
+		const permOptName = interaction.options.getString("server");
+		let permVMCfg: VMConfig|undefined = undefined;
+		if (permOptName !== null) {
+			try {
+				permVMCfg = vmCfgByFriendlyName(this.cfg, permOptName);
+			} catch (e) {
+				this.log.warn("interaction for unknown server", { error: e, server: permOptName });
+				await interaction.reply({
+					content: `Sorry, there is no server named "${permOptName}".`,
+					allowedMentions: { parse: [] },
+				});
+				return;
+			}
+		}
+
+		// Check user has required permissions for the command and the server it targets
+		const permAction = permissionActionForCmd(interaction.commandName);
+		const permDenial = permAction === null ? null : this.permissionDenial(interaction.member, interaction.user.id, permAction, permVMCfg);
+		if (permDenial !== null) {
+			await interaction.reply({
+				content: `Sorry, ${permDenial}`,
+				allowedMentions: { parse: [] },
+			});
 			return;
 		}
 
@@ -1186,27 +2676,41 @@ class Bot {
 			// Defer response until PowerRequest.poll() can update it
 			await interaction.deferReply();
 
-			// Determine if a power request is already running for this vm
-			const otherReqs = await PowerRequest.OngoingCount(this, vmCfg);
-			if (otherReqs > 0) {
-				interaction.editReply(`Sorry, the ${vmCfg.friendlyName} server is busy right now. Please wait until other commands are finished working on this server.`);
-				return;
-			}
+			// Check and create the boot request while scheduled boots can't, so two boot requests aren't made for the same server
+			await this.bootRequestsLock.run(async () => {
+				// Determine if the server can be booted
+				const bootDenial = await this.bootDenial(vmCfg);
+				if (bootDenial !== null) {
+					await interaction.editReply({
+						content: `Sorry, ${bootDenial}`,
+						allowedMentions: { parse: [] },
+					});
+					return;
+				}
 
-			// Setup boot request
-			const ctrlMsgID: DiscordCtrlMsgID = {
-				ctrl_type: DISCORD_CTRL_INTERACTION,
-				id: interaction.id,
-				token: interaction.token
-			};
-			const bootReq = new BootRequest(this, vmCfg, {
-				guildID: interaction.guildID,
-				channelID: interaction.channelID,
+				// Setup boot request
+				const ctrlMsgID: DiscordCtrlMsgID = interactionCtrlMsgID(interaction);
+				const bootReq = new BootRequest(this, vmCfg, {
+					guildID: interaction.guildId,
+					channelID: interaction.channelId,
+				}, interaction.user.id);
+				
+				if (await bootReq.initBoot(ctrlMsgID) === false) {
+					await interaction.editReply(`Sorry, the ${vmCfg.friendlyName} server is busy right now. Please wait until other commands are finished working on this server.`);
+					return;
+				}
+
+				// Let the requester know when the server is ready, only once the boot started so the subscription ends with this boot
+				if (interaction.options.getBoolean("notify") === true) {
+					await this.db.notify_subscriptions.save({
+						vm_name: vmCfg.friendlyName,
+						user_id: interaction.user.id,
+						time: moment().valueOf(),
+					});
+				}
+				await bootReq.poll();
+				await bootReq.save();
 			});
-			
-			await bootReq.initBoot(ctrlMsgID);
-			await bootReq.poll();
-			await bootReq.save();
 
 			return;
 		} else if (interaction.commandName === SHUTDOWN_CMD_NAME) {
@@ -1217,106 +2721,1428 @@ class Bot {
 			// Defer response until PowerRequest.poll() can update it
 			await interaction.deferReply();
 
-			// Determine if a power request is already running for this vm
-			const otherReqs = await PowerRequest.OngoingCount(this, vmCfg);
-			if (otherReqs > 0) {
-				interaction.editReply(`Sorry, the ${vmCfg.friendlyName} server is busy right now. Please wait until other commands are finished working on this server.`);
-				return;
+			// Check and create the power request while other commands and polling can't change power requests
+			await this.powerRequestsLock.run(async () => {
+				// Setup power request, unless one is already running for this vm
+				const powerReq = new PowerRequest(this, interactionCtrlMsgID(interaction), vmCfg, VMPowerState.Deallocated, {
+					user_id: interaction.user.id,
+					location: {
+						guildID: interaction.guildId,
+						channelID: interaction.channelId,
+					},
+				});
+				if (await powerReq.saveNew() === false) {
+					await interaction.editReply(`Sorry, the ${vmCfg.friendlyName} server is busy right now. Please wait until other commands are finished working on this server.`);
+					return;
+				}
+
+				await this.pollNewPowerRequest(powerReq);
+			});
+
+			return;
+		} else if (interaction.commandName === EXTEND_CMD_NAME) {
+			// Find parameters about vm from config
+			const optName = interaction.options.getString("server");
+			const optMinutes = interaction.options.getInteger("minutes");
+			const vmCfg = vmCfgByFriendlyName(this.cfg, optName);
+
+			await interaction.deferReply();
+
+			const reply = await this.extendSession(vmCfg, optMinutes);
+
+			await interaction.editReply(reply);
+			return;
+		} else if (interaction.commandName === STATUS_CMD_NAME) {
+			// Defer response as checking all the servers may take a moment
+			await interaction.deferReply();
+
+			const fields = await Promise.all(this.cfg.vms.map((vmCfg) => this.vmStatusField(vmCfg)));
+			await interaction.editReply({
+				embeds: [
+					{
+						title: ":bar_chart: Server Status",
+						color: DEC_COLOR_START,
+						fields,
+					},
+				],
+			});
+
+			return;
+		} else if (interaction.commandName === HISTORY_CMD_NAME) {
+			const optName = interaction.options.getString("server");
+			const optUser = interaction.options.getUser("user");
+			const optPage = interaction.options.getInteger("page") || 1;
+			const optExport = interaction.options.getString("export");
+
+			await interaction.deferReply();
+
+			const filter: PowerRequestFilter = {
+				vmName: optName === null ? undefined : optName,
+				userID: optUser === null ? undefined : optUser.id,
+			};
+			const total = await this.db.power_requests.countHistory(filter);
+			const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+			const page = Math.min(optPage, pageCount);
+			const rows = (await this.db.power_requests.listHistory(filter, (page - 1) * HISTORY_PAGE_SIZE, HISTORY_PAGE_SIZE)).map(powerRequestHistoryRow);
+
+			const lines = rows.map((row) => {
+				const parts = [ `**${row.server}** ${row.action}` ];
+
+				if (row.requester_user_id === null) {
+					parts.push("automatic");
+				} else if (row.requester_user_id !== undefined) {
+					parts.push(`by <@${row.requester_user_id}>`);
+				}
+
+				if (row.start_time !== undefined) {
+					parts.push(`<t:${Math.round(row.start_time / 1000)}:f>`);
+				}
+
+				switch (row.outcome) {
+					case "success":
+						parts.push(":white_check_mark: succeeded");
+						break;
+					case "error":
+						parts.push(`:x: failed: ${row.error}`);
+						break;
+					case "timed_out":
+						parts.push(":alarm_clock: timed out");
+						break;
+					case "cancelled":
+						parts.push(":no_entry_sign: cancelled");
+						break;
+					default:
+						parts.push(":hourglass: in progress");
+						break;
+				}
+
+				if (row.duration_ms !== undefined) {
+					parts.push(`took ${moment.utc(row.duration_ms).format("mm:ss")}`);
+				}
+
+				return parts.join(" · ");
+			});
+			if (lines.length === 0) {
+				lines.push("No requests found.");
 			}
 
-			// Setup power request
-			const powerReq = new PowerRequest(this, { ctrl_type: DISCORD_CTRL_INTERACTION, id: interaction.id, token: interaction.token }, vmCfg, VMPowerState.Deallocated);
-			await powerReq.poll();
-			await powerReq.save();
+			// Attach every matching request if asked
+			const files = [];
+			if (optExport !== null) {
+				const allRows = (await this.db.power_requests.listHistory(filter, 0)).map(powerRequestHistoryRow);
+				const contents = optExport === "csv" ? historyCSV(allRows) : JSON.stringify(allRows, null, 2);
+				files.push({
+					attachment: Buffer.from(contents, "utf8"),
+					name: `history.${optExport}`,
+				});
+			}
+
+			await interaction.editReply({
+				embeds: [
+					{
+						title: ":scroll: Request History",
+						color: DEC_COLOR_START,
+						description: lines.join("\n"),
+						footer: {
+							text: `Page ${page} of ${pageCount} · ${total} requests`,
+						},
+					},
+				],
+				files,
+				allowedMentions: { parse: [] },
+			});
 
 			return;
-		}
+		} else if (interaction.commandName === COST_CMD_NAME) {
+			const optMonths = interaction.options.getInteger("months") || 1;
 
-		this.log.warn("unknown interaction type", { interaction });
-	}
+			await interaction.deferReply();
 
-	/**
-	 * Retrieve on-going power requests from the database and run their poll() method.
-	 */
-	async pollOngoing() {
-		const ongoing = await this.db.power_requests.find({ "stage.current": { $in: [ "requested", "in_progress" ] }, }).toArray();
+			const fields = [];
+			for (let i = 0; i < optMonths; i++) {
+				const month = moment().subtract(i, "months");
+				const usages = await this.monthUsage(month);
 
-		await Promise.all(ongoing.map(async (data) => {
-			const power_req = new PowerRequest(this, data.ctrl_msg_id, data.vm_cfg, data.target_power);
-			await power_req.load();
+				const lines = usages.map(({ vmCfg, usage }) => `**${vmCfg.friendlyName}**: ${usage.hours.toFixed(1)} hours, ${formatCost(this.cfg, usage.cost)}`);
+				const total = usages.reduce((sum, { usage }) => sum + usage.cost, 0);
+				lines.push(`**Total**: ${formatCost(this.cfg, total)}`);
 
-			this.log.debug("polling power request", { ctrl_msg_id: power_req.data.ctrl_msg_id });
+				if (i === 0 && this.cfg.cost.monthlyBudget !== undefined) {
+					lines.push(`**Budget**: ${formatCost(this.cfg, this.cfg.cost.monthlyBudget)} (${formatCost(this.cfg, Math.max(0, this.cfg.cost.monthlyBudget - total))} left)`);
+				}
 
-			await power_req.poll();
+				fields.push({
+					name: month.format("MMMM YYYY"),
+					value: lines.join("\n"),
+				});
+			}
 
-			await power_req.save();
-		}));
-	}
+			await interaction.editReply({
+				embeds: [
+					{
+						title: ":moneybag: Server Costs",
+						color: DEC_COLOR_START,
+						description: "Estimated from when the bot started and stopped each server.",
+						fields,
+					},
+				],
+			});
 
-  /**
-	 * Run until an exit signal is sent to the process.
-	 */
-  async waitForExit() {
-		await new Promise<void>((resolve, reject) => {
-			process.on("SIGTERM", resolve);
-			process.on("SIGINT", resolve);
-		});
-  }
-}
+			return;
+		} else if (interaction.commandName === CANCEL_CMD_NAME) {
+			const optName = interaction.options.getString("server");
+			const optRevert = interaction.options.getBoolean("revert") === true;
+			const vmCfg = vmCfgByFriendlyName(this.cfg, optName);
 
-/**
- * Stores MongoDB database client for database and collections for the Bot class's usage.
- */
-interface BotDB {
-	/**
-	 * Power Requests collection.
-	 */
-	power_requests: Collection<PowerRequestData>;
+			// Defer response until PowerRequest.poll() can update it, if reverting
+			await interaction.deferReply();
 
-	/**
-	 * Boot Requests collection.
-	 */
-	boot_requests: Collection<BootRequestData>;
-}
+			const reply = await this.powerRequestsLock.run(async () => {
+				const data = await this.db.power_requests.findOngoingByVM(vmCfg.friendlyName);
+				if (data === null) {
+					return `Sorry, the ${vmCfg.friendlyName} server is not starting or shutting down right now.`;
+				}
 
-/**
- * Main entrypoint
- * @param log Logger
- */
-async function main(log) {
-  // Load configuration
-  if (process.env.DISCORD_AZURE_BOOT_CONFIG_FILE === undefined) {
-    throw new Error("DISCORD_AZURE_BOOT_CONFIG_FILE env var must be set to the absolute path of a JSON configuration file");
-  }
-  const cfg = await loadConfig(process.env.DISCORD_AZURE_BOOT_CONFIG_FILE);
+				const powerReq = new PowerRequest(this, data.ctrl_msg_id, data.vm_cfg, data.target_power, data.requester);
+				powerReq.data = data;
 
-  const bot = new Bot(cfg, log);
-  await bot.init();
+				// Users can only cancel power changes they could have made themselves
+				const permDenial = this.permissionDenial(interaction.member, interaction.user.id, powerRequestPermissionAction(data), vmCfg);
+				if (permDenial !== null) {
+					return `Sorry, ${permDenial}`;
+				}
 
-	await bot.waitForExit();
+				const revertCtrlMsgID: DiscordCtrlMsgID = interactionCtrlMsgID(interaction);
+				return await this.cancelPowerRequest(powerReq, {
+					user_id: interaction.user.id,
+					location: {
+						guildID: interaction.guildId,
+						channelID: interaction.channelId,
+					},
+				}, optRevert === true ? revertCtrlMsgID : null);
+			});
 
-  await bot.cleanup();
-	
+			if (reply !== null) {
+				await interaction.editReply({
+					content: reply,
+					allowedMentions: { parse: [] },
+				});
+			}
+			return;
+		} else if (interaction.commandName === NOTIFY_CMD_NAME) {
+			const optName = interaction.options.getString("server");
+			const vmCfg = vmCfgByFriendlyName(this.cfg, optName);
+
+			await interaction.deferReply({ ephemeral: true });
+
+			// Running the command again unsubscribes
+			if (await this.db.notify_subscriptions.delete(vmCfg.friendlyName, interaction.user.id) === true) {
+				await interaction.editReply(`You will no longer get a direct message about the ${vmCfg.friendlyName} server.`);
+				return;
+			}
+
+			await this.db.notify_subscriptions.save({
+				vm_name: vmCfg.friendlyName,
+				user_id: interaction.user.id,
+				time: moment().valueOf(),
+			});
+			await interaction.editReply(`You will get a direct message when the ${vmCfg.friendlyName} server finishes starting or stopping, until its current or next session ends. Run /${NOTIFY_CMD_NAME} again to stop.`);
+			return;
+		} else if (interaction.commandName === LOCK_CMD_NAME) {
+			const optName = interaction.options.getString("server");
+			const optReason = interaction.options.getString("reason");
+			const optMinutes = interaction.options.getInteger("minutes");
+			const vmCfg = vmCfgByFriendlyName(this.cfg, optName);
+
+			await interaction.deferReply();
+
+			const now = moment().valueOf();
+			const lock: VMLockData = {
+				vm_name: vmCfg.friendlyName,
+				reason: optReason,
+				locked_by: {
+					user_id: interaction.user.id,
+					location: {
+						guildID: interaction.guildId,
+						channelID: interaction.channelId,
+					},
+				},
+				start_time: now,
+				end_time: optMinutes === null ? null : moment(now).add(optMinutes, "minutes").valueOf(),
+			};
+			await this.db.vm_locks.save(lock);
+
+			await interaction.editReply(`Locked the ${vmCfg.friendlyName} server, it can't be started until it is unlocked. ${lockEndStr(lock)}`);
+			return;
+		} else if (interaction.commandName === UNLOCK_CMD_NAME) {
+			const optName = interaction.options.getString("server");
+			const vmCfg = vmCfgByFriendlyName(this.cfg, optName);
+
+			await interaction.deferReply();
+
+			const lock = await this.db.vm_locks.findActive(vmCfg.friendlyName, moment().valueOf());
+			await this.db.vm_locks.delete(vmCfg.friendlyName);
+
+			if (lock === null) {
+				await interaction.editReply(`The ${vmCfg.friendlyName} server was not locked.`);
+				return;
+			}
+
+			await interaction.editReply(`Unlocked the ${vmCfg.friendlyName} server, it can be started again.`);
+			return;
+		} else if (interaction.commandName === SCHEDULE_CMD_NAME) {
+			await interaction.deferReply();
+
+			const subcommand = interaction.options.getSubcommand();
+			if (subcommand === "add") {
+				const optAction = interaction.options.getString("action") as ScheduledJobData["action"];
+				const optAt = interaction.options.getString("at");
+				const optCron = interaction.options.getString("cron");
+
+				// Looked up before deferring, the configuration may have been reloaded since
+				const vmCfg = permVMCfg;
+
+				// Users can only schedule actions they could perform themselves
+				const permDenial = this.permissionDenial(interaction.member, interaction.user.id, optAction, vmCfg);
+				if (permDenial !== null) {
+					await interaction.editReply({
+						content: `Sorry, ${permDenial}`,
+						allowedMentions: { parse: [] },
+					});
+					return;
+				}
+
+				if ((optAt === null) === (optCron === null)) {
+					await interaction.editReply("Sorry, exactly one of the `at` or `cron` options must be provided.");
+					return;
+				}
+
+				// Determine when the job first runs
+				const now = moment().valueOf();
+				let runTime = null;
+				if (optAt !== null) {
+					runTime = parseScheduleTime(optAt);
+					if (runTime === null) {
+						await interaction.editReply(`Sorry, \`${optAt}\` is not a valid time. Times must look like \`2024-05-31 19:30\`.`);
+						return;
+					}
+
+					if (runTime <= now) {
+						await interaction.editReply(`Sorry, <t:${Math.round(runTime / 1000)}:f> is in the past.`);
+						return;
+					}
+				} else {
+					try {
+						runTime = nextCronTime(optCron, now);
+					} catch (e) {
+						await interaction.editReply(`Sorry, \`${optCron}\` is not a valid cron expression: ${e.message}.`);
+						return;
+					}
+				}
+
+				const job: ScheduledJobData = {
+					vm_name: vmCfg.friendlyName,
+					action: optAction,
+					cron: optCron,
+					run_time: runTime,
+					creator: {
+						user_id: interaction.user.id,
+						location: {
+							guildID: interaction.guildId,
+							channelID: interaction.channelId,
+						},
+					},
+				};
+				job._id = await this.db.scheduled_jobs.save(job);
+
+				const repeatsStr = job.cron === null ? "" : `, then repeatedly on the schedule \`${job.cron}\``;
+				await interaction.editReply(`Scheduled job \`${job._id}\` will ${SCHEDULE_ACTION_WORDS[job.action]} the ${vmCfg.friendlyName} server <t:${Math.round(runTime / 1000)}:f>${repeatsStr}.`);
+			} else if (subcommand === "list") {
+				const jobs = await this.db.scheduled_jobs.list();
+
+				const lines = jobs.map((job) => {
+					const runUnix = Math.round(job.run_time / 1000);
+					const parts = [
+						`\`${job._id}\``,
+						`**${job.vm_name}** ${job.action}`,
+						`<t:${runUnix}:f> (<t:${runUnix}:R>)`,
+					];
+					if (job.cron !== null) {
+						parts.push(`repeats \`${job.cron}\``);
+					}
+					parts.push(`by <@${job.creator.user_id}>`);
+
+					return parts.join(" · ");
+				});
+				if (lines.length === 0) {
+					lines.push("Nothing is scheduled.");
+				}
+
+				await interaction.editReply({
+					embeds: [
+						{
+							title: ":calendar: Scheduled Jobs",
+							color: DEC_COLOR_START,
+							description: lines.join("\n"),
+						},
+					],
+					allowedMentions: { parse: [] },
+				});
+			} else if (subcommand === "remove") {
+				const optID = interaction.options.getString("id");
+
+				const job = await this.db.scheduled_jobs.get(optID);
+				if (job === null) {
+					await interaction.editReply(`Sorry, there is no scheduled job with the ID \`${optID}\`.`);
+					return;
+				}
+
+				// Users can only remove jobs for actions they could perform themselves
+				const vmCfg = this.cfg.vms.find((vm) => vm.friendlyName === job.vm_name);
+				const permDenial = this.permissionDenial(interaction.member, interaction.user.id, job.action, vmCfg);
+				if (permDenial !== null) {
+					await interaction.editReply({
+						content: `Sorry, ${permDenial}`,
+						allowedMentions: { parse: [] },
+					});
+					return;
+				}
+
+				await this.db.scheduled_jobs.delete(optID);
+				await interaction.editReply(`Removed scheduled job \`${optID}\`, the ${job.vm_name} server will no longer ${SCHEDULE_ACTION_WORDS[job.action]} <t:${Math.round(job.run_time / 1000)}:f>.`);
+			}
+
+			return;
+		}
+
+		this.log.warn("unknown interaction type", { interaction });
+	}
+
+	/**
+	 * Runs whenever a button on one of the bot's messages is clicked. Buttons act on the boot request whose database ID is in their custom ID, after the same permission checks as the equivalent slash commands.
+	 * @param interaction Discord interaction which was created by the button click.
+	 */
+	async onDiscordButton(interaction: ButtonInteraction) {
+		const [ buttonID, bootReqID ] = interaction.customId.split(":");
+		if (buttonID === CANCEL_BUTTON_ID) {
+			await this.onDiscordCancelButton(interaction, bootReqID);
+			return;
+		}
+
+		if (buttonID !== SHUTDOWN_BUTTON_ID && buttonID !== EXTEND_BUTTON_ID) {
+			this.log.warn("unknown button", { customId: interaction.customId });
+			return;
+		}
+
+		const data = await this.db.boot_requests.get(bootReqID);
+		if (data === null) {
+			await interaction.reply({
+				content: "Sorry, this server session no longer exists.",
+				ephemeral: true,
+			});
+			return;
+		}
+
+		// Use the latest configuration for the virtual machine if it still exists
+		let vmCfg = this.cfg.vms.find((vm) => vm.friendlyName === data.vm_cfg.friendlyName);
+		if (vmCfg === undefined) {
+			vmCfg = data.vm_cfg;
+		}
+
+		// Check user has the same permissions they would need to run the equivalent command
+		const action = buttonID === SHUTDOWN_BUTTON_ID ? "shutdown" : "other";
+		const permDenial = this.permissionDenial(interaction.member as GuildMember, interaction.user.id, action, vmCfg);
+		if (permDenial !== null) {
+			await interaction.reply({
+				content: `Sorry, ${permDenial}`,
+				ephemeral: true,
+				allowedMentions: { parse: [] },
+			});
+			return;
+		}
+
+		if (buttonID === EXTEND_BUTTON_ID) {
+			await interaction.deferReply();
+
+			const reply = await this.extendSession(vmCfg, EXTEND_BUTTON_MINUTES, bootReqID);
+			await interaction.editReply(reply);
+			return;
+		}
+
+		// Defer response until PowerRequest.poll() can update it
+		await interaction.deferReply();
+
+		const failReply = await this.bootRequestsLock.run(async () => {
+			const bootReq = await BootRequest.Ongoing(this, vmCfg);
+			if (bootReq === null || bootReq.data._id !== bootReqID || bootReq.data.stage.current !== BootRequestStage.Running) {
+				return `Sorry, that session of the ${vmCfg.friendlyName} server has already ended.`;
+			}
+
+			await bootReq.shutdown(async () => {
+				return interactionCtrlMsgID(interaction);
+			}, {
+				user_id: interaction.user.id,
+				location: {
+					guildID: interaction.guildId,
+					channelID: interaction.channelId,
+				},
+			});
+			// Shutdown does nothing if other commands are running on the server
+			if (bootReq.data.stage.shutting_down === undefined) {
+				return `Sorry, the ${vmCfg.friendlyName} server is busy right now. Please wait until other commands are finished working on this server.`;
+			}
+
+			try {
+				await bootReq.save();
+			} catch (e) {
+				if (e instanceof SaveConflictError === false) {
+					throw e;
+				}
+
+				// The shutdown power request was still saved, once it succeeds the session ends by itself
+				this.log.warn("boot request changed while starting its shutdown", { error: e, _id: bootReq.data._id });
+			}
+			return null;
+		});
+		if (failReply !== null) {
+			await interaction.editReply(failReply);
+			return;
+		}
+
+		// The session is over so remove the buttons from the message which was clicked
+		try {
+			await (interaction.message as Message).edit({ components: [] });
+		} catch (e) {
+			this.log.warn("failed to remove buttons from message", { error: e });
+		}
+	}
+
+	/**
+	 * Runs when the cancel button on a power request's control message is clicked. Cancels the power request and undoes its changes.
+	 * @param interaction Discord interaction which was created by the button click.
+	 * @param powerReqID Database ID of the power request to cancel.
+	 */
+	async onDiscordCancelButton(interaction: ButtonInteraction, powerReqID: string) {
+		const data = await this.db.power_requests.get(powerReqID);
+		if (data === null || POWER_REQUEST_ONGOING_STAGES.indexOf(data.stage.current) === -1) {
+			await interaction.reply({
+				content: "Sorry, that request has already finished.",
+				ephemeral: true,
+			});
+			return;
+		}
+
+		// Use the latest configuration for the virtual machine if it still exists
+		let vmCfg = this.cfg.vms.find((vm) => vm.friendlyName === data.vm_cfg.friendlyName);
+		if (vmCfg === undefined) {
+			vmCfg = data.vm_cfg;
+		}
+
+		// Users can only cancel power changes they could have made themselves
+		const permDenial = this.permissionDenial(interaction.member as GuildMember, interaction.user.id, powerRequestPermissionAction(data), vmCfg);
+		if (permDenial !== null) {
+			await interaction.reply({
+				content: `Sorry, ${permDenial}`,
+				ephemeral: true,
+				allowedMentions: { parse: [] },
+			});
+			return;
+		}
+
+		// Defer response until PowerRequest.poll() can update it
+		await interaction.deferReply();
+
+		const reply = await this.powerRequestsLock.run(async () => {
+			// The power request may have finished while waiting for the lock
+			const powerReq = await PowerRequest.ByID(this, powerReqID);
+			if (POWER_REQUEST_ONGOING_STAGES.indexOf(powerReq.data.stage.current) === -1) {
+				return "Sorry, that request has already finished.";
+			}
+
+			return await this.cancelPowerRequest(powerReq, {
+				user_id: interaction.user.id,
+				location: {
+					guildID: interaction.guildId,
+					channelID: interaction.channelId,
+				},
+			}, interactionCtrlMsgID(interaction));
+		});
+
+		if (reply !== null) {
+			await interaction.editReply({
+				content: reply,
+				allowedMentions: { parse: [] },
+			});
+		}
+	}
+
+	/**
+	 * Cancel an ongoing power request by moving it to the cancelled stage and updating its control message. Must be called while holding powerRequestsLock.
+	 * @param powerReq The ongoing power request.
+	 * @param requester The Discord user who is cancelling the power request.
+	 * @param revertCtrlMsgID If not null then a new power request is started which returns the virtual machine to the power state it was in before the cancelled power request began, using this control message.
+	 * @returns Resolves with a message which should be shown to the user, or null if the revert power request is showing its progress on revertCtrlMsgID.
+	 */
+	async cancelPowerRequest(powerReq: PowerRequest, requester: DiscordRequester, revertCtrlMsgID: DiscordCtrlMsgID|null): Promise<string|null> {
+		const data = powerReq.data;
+		const vmName = data.vm_cfg.friendlyName;
+		const actionWord = data.target_power === VMPowerState.Running ? "start" : "shut down";
+		const startPower = data.stage.in_progress !== undefined ? data.stage.in_progress.start_power : undefined;
+
+		let reply = `Cancelled the request to ${actionWord} the ${vmName} server.`;
+
+		// Return the virtual machine to how it was, if it was in a state we know how to reach
+		const revertablePowers = [ VMPowerState.Running, VMPowerState.Deallocated, VMPowerState.Stopped ];
+		let revertReq: PowerRequest|null = null;
+		if (revertCtrlMsgID !== null) {
+			if (startPower === undefined || startPower === data.target_power) {
+				reply += " The server had not been changed yet, so there is nothing to undo.";
+			} else if (revertablePowers.indexOf(startPower) === -1) {
+				reply += ` The server was ${vmStateFromPower(startPower).friendlyName} before, so it can't be returned to how it was.`;
+			} else {
+				// Saved before the cancellation so a boot request never sees the cancellation without the revert it has to wait for
+				revertReq = new PowerRequest(this, revertCtrlMsgID, data.vm_cfg, startPower, requester);
+				if (await revertReq.saveNew(data._id) === false) {
+					revertReq = null;
+					reply += " Another request is working on the server, so it can't be returned to how it was.";
+				}
+			}
+		}
+
+		data.stage.current = "cancelled";
+		data.stage.cancelled = {
+			time: moment().valueOf(),
+			requester,
+		};
+		if (revertReq !== null) {
+			data.stage.cancelled.revert_power_request_id = revertReq.data._id;
+		}
+		try {
+			await powerReq.save();
+		} catch (e) {
+			if (e instanceof SaveConflictError === false) {
+				throw e;
+			}
+
+			// The instance polling the power request saved it since it was loaded, so it may have finished. Don't undo a power change which wasn't cancelled.
+			if (revertReq !== null) {
+				revertReq.data.stage.current = "cancelled";
+				revertReq.data.stage.cancelled = {
+					time: moment().valueOf(),
+					requester,
+				};
+				await revertReq.save();
+			}
+
+			return `Sorry, the request to ${actionWord} the ${vmName} server changed while it was being cancelled. Please try again.`;
+		}
+
+		// Let anyone watching the control message know
+		try {
+			const ctrlMsg = new DiscordCtrlMsg(this, data.ctrl_msg_id);
+			await ctrlMsg.edit(undefined, {
+				title: `:no_entry_sign: ${vmName} Server ${data.target_power === VMPowerState.Running ? "Start" : "Shutdown"} Cancelled`,
+				color: DEC_COLOR_STOP,
+				description: `<@${requester.user_id}> cancelled the request to ${actionWord} the ${vmName} server.`,
+			});
+
+			// The control message moves to a regular message once the interaction token expires
+			if (JSON.stringify(ctrlMsg.id) !== JSON.stringify(data.ctrl_msg_id)) {
+				data.ctrl_msg_id = ctrlMsg.id;
+				await powerReq.save();
+			}
+		} catch (e) {
+			this.log.warn("failed to update control message of cancelled power request", { error: e, _id: data._id });
+		}
+
+		if (revertReq === null) {
+			return reply;
+		}
+
+		await this.pollNewPowerRequest(revertReq);
+
+		return null;
+	}
+
+	/**
+	 * Extend the session of a virtual machine which was started by a boot request. Sessions cannot go past their maximum length or the start of quiet hours.
+	 * @param vmCfg The virtual machine.
+	 * @param minutes The number of minutes to add to the session.
+	 * @param [bootReqID] If provided then the session is only extended if it belongs to the boot request with this database ID.
+	 * @returns Resolves with a message describing the result which can be shown to the user.
+	 */
+	async extendSession(vmCfg: VMConfig, minutes: number, bootReqID?: string): Promise<string> {
+		// Modify the boot request while it isn't being polled so the changes aren't overwritten
+		return await this.bootRequestsLock.run(async () => {
+			const bootReq = await BootRequest.Ongoing(this, vmCfg);
+			if (bootReq === null || bootReq.data.stage.current !== BootRequestStage.Running) {
+				return `Sorry, the ${vmCfg.friendlyName} server can only be extended while it is running after being started with /${BOOT_CMD_NAME}.`;
+			}
+
+			if (bootReqID !== undefined && bootReq.data._id !== bootReqID) {
+				return `Sorry, that session of the ${vmCfg.friendlyName} server has already ended.`;
+			}
+
+			const running = bootReq.data.stage.running;
+			const maxExpireTime = moment(running.start_time).add(vmCfg.maxSessionLengthMinutes, "minutes").valueOf();
+			if (running.expire_time >= maxExpireTime) {
+				return `Sorry, the ${vmCfg.friendlyName} server has already been extended to its maximum session length of ${vmCfg.maxSessionLengthMinutes} minutes.`;
+			}
+
+			const quietStart = nextQuietHoursStart(vmCfg.quietHours, moment().valueOf());
+			if (quietStart !== null && running.expire_time >= quietStart) {
+				return `Sorry, the ${vmCfg.friendlyName} server can't be extended because its quiet hours begin <t:${Math.round(quietStart / 1000)}:t>.`;
+			}
+
+			let capped = false;
+			let quietCapped = false;
+			running.expire_time = moment(running.expire_time).add(minutes, "minutes").valueOf();
+			if (running.expire_time > maxExpireTime) {
+				running.expire_time = maxExpireTime;
+				capped = true;
+			}
+			if (quietStart !== null && running.expire_time > quietStart) {
+				running.expire_time = quietStart;
+				running.quiet_hours = true;
+				capped = false;
+				quietCapped = true;
+			}
+
+			// Warn again before the new expire time
+			const oldWarnMsgID = running.expire_ctrl_msg_id;
+			running.expire_ctrl_msg_id = null;
+			try {
+				await bootReq.save();
+			} catch (e) {
+				if (e instanceof SaveConflictError === false) {
+					throw e;
+				}
+
+				return `Sorry, the session of the ${vmCfg.friendlyName} server changed while it was being extended. Please try again.`;
+			}
+
+			// Show the new time on the warning message if it was already sent, the session is extended either way
+			if (oldWarnMsgID !== undefined && oldWarnMsgID !== null) {
+				try {
+					const ctrlMsg = new DiscordCtrlMsg(this, oldWarnMsgID);
+					await ctrlMsg.edit(undefined, bootReq.expireWarnEmbed(), bootReq.sessionButtons());
+				} catch (e) {
+					this.log.warn("failed to update expire warning of extended session", { error: e, _id: bootReq.data._id });
+				}
+			}
+
+			const expireUnix = Math.round(running.expire_time / 1000);
+			let reply = `The ${vmCfg.friendlyName} server will now automatically shut down <t:${expireUnix}:R>, at <t:${expireUnix}:t>.`;
+			if (capped === true) {
+				reply += ` This is the maximum session length of ${vmCfg.maxSessionLengthMinutes} minutes.`;
+			}
+			if (quietCapped === true) {
+				reply += " This is when its quiet hours begin.";
+			}
+			return reply;
+		});
+	}
+
+	/**
+	 * Determine if a user is allowed to perform an action. Uses the virtual machine's permission rule for the action if it has one, otherwise the user must have the discord.permissionRoleID role, if configured. Admin actions always need a rule, as every user who can boot the server would otherwise be an admin.
+	 * @param member The Discord guild member performing the action.
+	 * @param userID ID of the Discord user performing the action.
+	 * @param action The action being performed.
+	 * @param [vmCfg] The virtual machine the action is being performed on, if any.
+	 * @returns Null if the user is allowed, otherwise an explanation of which permission is missing which can be shown to the user.
+	 */
+	permissionDenial(member: GuildMember|null, userID: string, action: PermissionAction, vmCfg?: VMConfig): string|null {
+		const hasRole = (roleID: string): boolean => member !== null && member.roles.cache.has(roleID);
+
+		const rule = vmCfg === undefined ? undefined : vmCfg.permissions[action];
+		if (rule !== undefined) {
+			if (rule.userIDs.indexOf(userID) !== -1 || rule.roleIDs.some(hasRole)) {
+				return null;
+			}
+
+			const allowed = [
+				...rule.roleIDs.map((id) => `users with the <@&${id}> role`),
+				...rule.userIDs.map((id) => `<@${id}>`),
+			];
+			if (allowed.length === 0) {
+				return `no one is allowed to ${PERMISSION_ACTION_WORDS[action]} the ${vmCfg.friendlyName} server.`;
+			}
+
+			return `you do not have permission to ${PERMISSION_ACTION_WORDS[action]} the ${vmCfg.friendlyName} server. Only ${allowed.join(", ")} can do this.`;
+		}
+
+		if (action === "admin") {
+			const vmWords = vmCfg === undefined ? "servers" : `the ${vmCfg.friendlyName} server`;
+			return `no one is allowed to ${PERMISSION_ACTION_WORDS[action]} ${vmWords}. An admin rule must be configured first.`;
+		}
+
+		if (this.cfg.discord.permissionRoleID !== undefined && hasRole(this.cfg.discord.permissionRoleID) === false) {
+			return `you do not have permission to use this command. You must have the <@&${this.cfg.discord.permissionRoleID}> role.`;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Determine if a new boot request can start a virtual machine.
+	 * @param vmCfg The virtual machine to start.
+	 * @returns Resolves with null if the virtual machine can be booted, otherwise an explanation which can be shown to the user.
+	 */
+	async bootDenial(vmCfg: VMConfig): Promise<string|null> {
+		const now = moment().valueOf();
+
+		// Determine if an admin has locked the server
+		const lock = await this.db.vm_locks.findActive(vmCfg.friendlyName, now);
+		if (lock !== null) {
+			return `the ${vmCfg.friendlyName} server has been locked by <@${lock.locked_by.user_id}>: ${lock.reason}. ${lockEndStr(lock)}`;
+		}
+
+		// Determine if it is quiet hours
+		const quietHours = quietHoursAt(vmCfg.quietHours, now);
+		if (quietHours !== null) {
+			const endUnix = Math.round(quietHours.end / 1000);
+			return `the ${vmCfg.friendlyName} server can't be started during its quiet hours. Quiet hours end <t:${endUnix}:R>, at <t:${endUnix}:t>.`;
+		}
+
+		// Determine if a power request is already running for this vm
+		const otherReqs = await PowerRequest.OngoingCount(this, vmCfg);
+		if (otherReqs > 0) {
+			return `the ${vmCfg.friendlyName} server is busy right now. Please wait until other commands are finished working on this server.`;
+		}
+
+		// Determine if the server has already been booted
+		const ongoingBoot = await BootRequest.Ongoing(this, vmCfg);
+		if (ongoingBoot !== null) {
+			if (ongoingBoot.data.stage.current === BootRequestStage.Running) {
+				const expireUnix = Math.round(ongoingBoot.data.stage.running.expire_time / 1000);
+				return `the ${vmCfg.friendlyName} server is already running. It will automatically shut down <t:${expireUnix}:R>.`;
+			}
+
+			return `the ${vmCfg.friendlyName} server is busy right now. Please wait until other commands are finished working on this server.`;
+		}
+
+		// Determine if the session would go over budget
+		return await this.budgetDenial(vmCfg);
+	}
+
+	/**
+	 * Determine how much each virtual machine ran during a month.
+	 * @param month Any time during the month. If this is the current month then usage is counted up until now.
+	 * @returns Resolves with the usage of each virtual machine, in configuration order.
+	 */
+	async monthUsage(month: moment.Moment): Promise<{ vmCfg: VMConfig, usage: VMUsage }[]> {
+		const start = month.clone().startOf("month").valueOf();
+		const end = Math.min(month.clone().endOf("month").valueOf(), moment().valueOf());
+
+		return await Promise.all(this.cfg.vms.map(async (vmCfg) => {
+			return {
+				vmCfg,
+				usage: await vmUsage(this.db.power_requests, vmCfg, start, end),
+			};
+		}));
+	}
+
+	/**
+	 * Determine if starting a virtual machine for a full session would make this month's total cost exceed the cost.monthlyBudget.
+	 * @param vmCfg The virtual machine which would be started.
+	 * @returns Resolves with null if the boot is within budget or no budget is configured, otherwise an explanation which can be shown to the user.
+	 */
+	async budgetDenial(vmCfg: VMConfig): Promise<string|null> {
+		const budget = this.cfg.cost.monthlyBudget;
+		if (budget === undefined) {
+			return null;
+		}
+
+		const usages = await this.monthUsage(moment());
+		const spent = usages.reduce((sum, { usage }) => sum + usage.cost, 0);
+		const sessionCost = (vmCfg.sessionLengthMinutes / 60) * vmCfg.hourlyCost;
+		if (spent + sessionCost <= budget) {
+			return null;
+		}
+
+		return `starting the ${vmCfg.friendlyName} server would exceed this month's budget of ${formatCost(this.cfg, budget)}. ${formatCost(this.cfg, spent)} has been spent so far and a ${vmCfg.sessionLengthMinutes} minute session costs about ${formatCost(this.cfg, sessionCost)}.`;
+	}
+
+	/**
+	 * Build a Discord embed field which describes the current status of a virtual machine. Includes its power state, any ongoing power request, and details about the boot request which started it.
+	 * @param vmCfg The virtual machine to describe.
+	 * @returns Resolves with the embed field.
+	 */
+	async vmStatusField(vmCfg: VMConfig): Promise<EmbedFieldData> {
+		const lines = [];
+
+		// Power state
+		let stateName = "Unknown";
+		try {
+			const powerState = await this.vmCompute(vmCfg).powerState(vmCfg);
+			this.observePowerState(vmCfg.friendlyName, powerState);
+			if (powerState !== undefined) {
+				stateName = vmStateFromPower(powerState).friendlyName;
+			}
+		} catch (e) {
+			this.log.error("failed to get power state for status", { error: e, vmCfg });
+			stateName = "Unknown (failed to check)";
+		}
+		lines.push(`**State**: ${stateName}`);
+
+		// Reasons the server can't be booted
+		const now = moment().valueOf();
+		const lock = await this.db.vm_locks.findActive(vmCfg.friendlyName, now);
+		if (lock !== null) {
+			lines.push(`**Locked**: ${lock.reason}`);
+		}
+
+		const quietHours = quietHoursAt(vmCfg.quietHours, now);
+		if (quietHours !== null) {
+			lines.push(`**Quiet Hours**: Until <t:${Math.round(quietHours.end / 1000)}:t>`);
+		}
+
+		// Ongoing power request
+		const powerReq = await this.db.power_requests.findOngoingByVM(vmCfg.friendlyName);
+		if (powerReq !== null) {
+			const actionWord = vmStateFromPower(nonTerminalForPower(powerReq.target_power)).friendlyName;
+			lines.push(`**Busy**: ${actionWord}`);
+		}
+
+		// Boot request
+		const bootReq = await BootRequest.Ongoing(this, vmCfg);
+		if (bootReq !== null) {
+			lines.push(`**Booted By**: <@${bootReq.data.requester_user_id}>`);
+
+			if (bootReq.data.stage.current === BootRequestStage.Running) {
+				const expireUnix = Math.round(bootReq.data.stage.running.expire_time / 1000);
+				lines.push(`**Shuts Down**: <t:${expireUnix}:R>`);
+			}
+		}
+
+		return {
+			name: vmCfg.friendlyName,
+			value: lines.join("\n"),
+		};
+	}
+
+	/**
+	 * Runs whenever someone joins, leaves, or moves between Discord voice channels.
+	 * @param oldState The user's voice state before the update.
+	 * @param newState The user's voice state after the update.
+	 */
+	onDiscordVoiceState(oldState: VoiceState, newState: VoiceState) {
+		const channelIDs = [ oldState.channelId, newState.channelId ].filter((id) => id !== null);
+
+		this.cfg.vms
+			.filter((vm) => vm.voiceChannelIDs.some((id) => channelIDs.indexOf(id) !== -1))
+			.forEach((vm) => this.updateVoiceEmpty(vm));
+	}
+
+	/**
+	 * Record if a virtual machine's voice channels are all empty in .voiceEmptySince. Bots are not counted as being in a voice channel.
+	 * @param vmCfg The virtual machine to check.
+	 */
+	updateVoiceEmpty(vmCfg: VMConfig) {
+		if (vmCfg.voiceChannelIDs.length === 0) {
+			// The server may have had voice channels before the configuration was reloaded
+			this.voiceEmptySince.delete(vmCfg.friendlyName);
+			return;
+		}
+
+		const memberCount = vmCfg.voiceChannelIDs.map((id) => {
+			const channel = this.discord.channels.cache.get(id);
+			if (channel === undefined || channel.isVoice() !== true) {
+				// Count unknown channels as not empty so we never shut down a server because of a bad config
+				this.log.warn(`could not find voice channel with ID ${id} for the ${vmCfg.friendlyName} server`);
+				return 1;
+			}
+
+			return (channel as BaseGuildVoiceChannel).members.filter((member) => member.user.bot !== true).size;
+		}).reduce((accm, v) => accm + v);
+
+		if (memberCount > 0) {
+			this.voiceEmptySince.delete(vmCfg.friendlyName);
+		} else if (this.voiceEmptySince.has(vmCfg.friendlyName) === false) {
+			this.voiceEmptySince.set(vmCfg.friendlyName, moment().valueOf());
+		}
+	}
+
+	/**
+	 * Run scheduled jobs which are due. Recurring jobs are moved to their next run time and one-off jobs are removed.
+	 * @returns Resolves when all due jobs have been started.
+	 */
+	async pollScheduledJobs(): Promise<void> {
+		const now = moment().valueOf();
+		const due = await this.db.scheduled_jobs.listDue(now);
+
+		for (const job of due) {
+			const runTime = job.run_time;
+
+			// Update the job before running it so a failure doesn't make it run again on the next poll
+			if (job.cron !== null) {
+				job.run_time = nextCronTime(job.cron, now);
+				await this.db.scheduled_jobs.save(job);
+			} else {
+				await this.db.scheduled_jobs.delete(job._id);
+			}
+
+			if (now - runTime > SCHEDULE_MISSED_GRACE_TIME) {
+				this.log.warn("skipping scheduled job which was missed", { job, runTime });
+				continue;
+			}
+
+			try {
+				await this.runScheduledJob(job);
+			} catch (e) {
+				this.log.error("failed to run scheduled job", { job, error: e });
+			}
+		}
+	}
+
+	/**
+	 * Boot or shut down a virtual machine for a scheduled job. Progress is shown on a new message in the channel where the job was scheduled.
+	 * @param job The scheduled job.
+	 * @returns Resolves when the boot or power request has been started.
+	 */
+	async runScheduledJob(job: ScheduledJobData): Promise<void> {
+		const vmCfg = this.cfg.vms.find((vm) => vm.friendlyName === job.vm_name);
+		if (vmCfg === undefined) {
+			this.log.warn("scheduled job's virtual machine is no longer configured", { job });
+			return;
+		}
+
+		this.log.info("running scheduled job", { job });
+
+		if (job.action === "boot") {
+			// Check and create the boot request while /boot can't, so two boot requests aren't made for the same server
+			await this.bootRequestsLock.run(async () => {
+				const bootDenial = await this.bootDenial(vmCfg);
+				if (bootDenial !== null) {
+					await DiscordCtrlMsg.Send(this, job.creator.location, `Skipped the scheduled boot because ${bootDenial}`, undefined, undefined, { parse: [] });
+					return;
+				}
+
+				const ctrlMsg = await DiscordCtrlMsg.Send(this, job.creator.location, `Starting the ${vmCfg.friendlyName} server as scheduled by <@${job.creator.user_id}>.`);
+				const bootReq = new BootRequest(this, vmCfg, job.creator.location, job.creator.user_id);
+
+				if (await bootReq.initBoot(ctrlMsg.id) === false) {
+					await ctrlMsg.edit(`Skipped the scheduled boot because the ${vmCfg.friendlyName} server was busy.`);
+					return;
+				}
+				await bootReq.poll();
+				await bootReq.save();
+			});
+		} else {
+			// Check and create the power request while /shutdown can't, so two power requests aren't made for the same server
+			await this.powerRequestsLock.run(async () => {
+				if (await PowerRequest.OngoingCount(this, vmCfg) > 0) {
+					await DiscordCtrlMsg.Send(this, job.creator.location, `Skipped the scheduled shutdown because the ${vmCfg.friendlyName} server was busy.`, undefined, undefined, { parse: [] });
+					return;
+				}
+
+				const ctrlMsg = await DiscordCtrlMsg.Send(this, job.creator.location, `Shutting down the ${vmCfg.friendlyName} server as scheduled by <@${job.creator.user_id}>.`);
+				const powerReq = new PowerRequest(this, ctrlMsg.id, vmCfg, VMPowerState.Deallocated, job.creator);
+				if (await powerReq.saveNew() === false) {
+					await ctrlMsg.edit(`Skipped the scheduled shutdown because the ${vmCfg.friendlyName} server was busy.`);
+					return;
+				}
+
+				await this.pollNewPowerRequest(powerReq);
+			});
+		}
+	}
+
+	/**
+	 * Acquire the poll lease, or renew it if this instance already holds it.
+	 * @returns Resolves when done. Errors are logged, the lease is then lost once it expires.
+	 */
+	async renewPollLease(): Promise<void> {
+		const now = moment().valueOf();
+		const expireTime = now + POLL_LEASE_DURATION;
+
+		try {
+			const acquired = await this.db.leases.acquire(POLL_LEASE_NAME, this.instanceID, now, expireTime);
+			if (acquired !== this.holdsPollLease()) {
+				this.log.info(acquired === true ? "acquired poll lease, polling ongoing requests" : "another instance holds the poll lease, not polling ongoing requests", { instance_id: this.instanceID });
+			}
+
+			this.pollLeaseExpireTime = acquired === true ? expireTime : null;
+		} catch (e) {
+			this.log.error("failed to renew poll lease", { error: e });
+		}
+	}
+
+	/**
+	 * Check if this instance holds a poll lease which has not expired.
+	 * @param [minRemaining] How long the lease must still last, in milliseconds. Defaults to 0.
+	 * @returns True if this instance should poll ongoing requests.
+	 */
+	holdsPollLease(minRemaining: number = 0): boolean {
+		return this.pollLeaseExpireTime !== null && moment().valueOf() + minRemaining < this.pollLeaseExpireTime;
+	}
+
+	/**
+	 * Poll a power request which was just saved, so users see its progress straight away. Only done if this instance holds the poll lease, otherwise the power request is left to the instance which does, so its compute provider isn't called by both. Must be called while holding powerRequestsLock.
+	 * @param powerReq The new power request.
+	 * @returns Resolves when done.
+	 */
+	async pollNewPowerRequest(powerReq: PowerRequest): Promise<void> {
+		if (this.holdsPollLease(POLL_LEASE_MIN_REMAINING) === false) {
+			return;
+		}
+
+		await powerReq.poll(true);
+
+		if (this.holdsPollLease(POLL_LEASE_MIN_REMAINING) === false) {
+			this.log.warn("lost poll lease while polling new power request, not saving", { _id: powerReq.data._id });
+			return;
+		}
+
+		await powerReq.save();
+	}
+
+	/**
+	 * Poll scheduled jobs, ongoing power requests, and ongoing boot requests. Does nothing if this instance does not hold the poll lease or the last poll cycle is still running.
+	 * @returns Resolves when done.
+	 */
+	async pollOngoing() {
+		if (this.pollOngoingRunning === true) {
+			this.log.debug("previous poll cycle still running, skipping");
+			return;
+		}
+
+		if (this.holdsPollLease() === false) {
+			return;
+		}
+
+		this.pollOngoingRunning = true;
+		const start = moment().valueOf();
+		try {
+			await this.pollOngoingCycle();
+			this.lastPollTime = moment().valueOf();
+		} catch (e) {
+			this.log.error("failed to poll ongoing requests", { error: e });
+		} finally {
+			this.pollCycleDuration.observe({}, (moment().valueOf() - start) / 1000);
+			this.pollOngoingRunning = false;
+		}
+	}
+
+	/**
+	 * Retrieve on-going power requests from the database and run their poll() method. Each request is only polled and saved if the poll lease is still held, so a slow cycle stops once the lease is lost.
+	 * @returns Resolves when done.
+	 */
+	async pollOngoingCycle(): Promise<void> {
+		await this.pollScheduledJobs();
+
+		await this.powerRequestsLock.run(async () => {
+			const ongoing = await this.db.power_requests.listOngoing();
+
+			await Promise.all(ongoing.map(async (data) => {
+				if (this.holdsPollLease(POLL_LEASE_MIN_REMAINING) === false) {
+					return;
+				}
+
+				const power_req = new PowerRequest(this, data.ctrl_msg_id, data.vm_cfg, data.target_power, data.requester);
+				await power_req.load();
+
+				this.log.debug("polling power request", { ctrl_msg_id: power_req.data.ctrl_msg_id });
+
+				await power_req.poll(true);
+
+				// Another instance may have taken over and saved its own changes while this poll ran
+				if (this.holdsPollLease(POLL_LEASE_MIN_REMAINING) === false) {
+					this.log.warn("lost poll lease while polling power request, not saving", { _id: power_req.data._id });
+					return;
+				}
+
+				try {
+					await power_req.save();
+				} catch (e) {
+					if (e instanceof SaveConflictError === false) {
+						throw e;
+					}
+
+					// A command on another instance changed the power request while it was polled, keep its changes and poll again next cycle
+					this.log.info("power request changed while polling, not saving", { _id: power_req.data._id });
+				}
+			}));
+		});
+
+		await this.bootRequestsLock.run(async () => {
+			const ongoingBoots = await this.db.boot_requests.listOngoing();
+
+			await Promise.all(ongoingBoots.map(async (data) => {
+				if (this.holdsPollLease(POLL_LEASE_MIN_REMAINING) === false) {
+					return;
+				}
+
+				const bootReq = new BootRequest(this, data.vm_cfg, data.follow_up_location, data.requester_user_id);
+				bootReq.data = data;
+
+				this.log.debug("polling boot request", { _id: bootReq.data._id });
+
+				await bootReq.poll(true);
+
+				// Another instance may have taken over and saved its own changes while this poll ran
+				if (this.holdsPollLease(POLL_LEASE_MIN_REMAINING) === false) {
+					this.log.warn("lost poll lease while polling boot request, not saving", { _id: bootReq.data._id });
+					return;
+				}
+
+				try {
+					await bootReq.save();
+				} catch (e) {
+					if (e instanceof SaveConflictError === false) {
+						throw e;
+					}
+
+					// A command on another instance changed the boot request while it was polled, keep its changes and poll again next cycle
+					this.log.info("boot request changed while polling, not saving", { _id: bootReq.data._id });
+				}
+			}));
+		});
+
+		// Keep the power state metric current for servers without ongoing requests
+		if (this.cfg.http !== undefined) {
+			await this.refreshPowerStates();
+		}
+	}
+
+	/**
+	 * Start the HTTP server which serves health checks at /healthz and metrics at /metrics. The http configuration must be provided.
+	 * @returns Resolves when the server is listening.
+	 * @throws {Error} If the server could not listen.
+	 */
+	async startHTTPServer(): Promise<void> {
+		const server = http.createServer(this.onHTTPRequest.bind(this));
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(this.cfg.http.port, this.cfg.http.host, () => {
+				server.off("error", reject);
+				resolve();
+			});
+		});
+		server.on("error", (e) => this.log.error("http server error", { error: e }));
+
+		this.httpServer = server;
+		this.log.info("serving health checks and metrics", { host: this.cfg.http.host, port: this.cfg.http.port });
+	}
+
+	/**
+	 * Runs whenever the HTTP server receives a request.
+	 * @param req The HTTP request.
+	 * @param res The HTTP response.
+	 */
+	async onHTTPRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+		const path = (req.url || "/").split("?")[0];
+
+		try {
+			if (req.method !== "GET") {
+				res.writeHead(405, { "Content-Type": "text/plain" });
+				res.end("method not allowed\n");
+				return;
+			}
+
+			if (path === "/healthz") {
+				const health = await this.healthCheck();
+				res.writeHead(health.healthy === true ? 200 : 503, { "Content-Type": "application/json" });
+				res.end(JSON.stringify(health));
+				return;
+			}
+
+			if (path === "/metrics") {
+				const text = await this.metricsText();
+				res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+				res.end(text);
+				return;
+			}
+
+			res.writeHead(404, { "Content-Type": "text/plain" });
+			res.end("not found\n");
+		} catch (e) {
+			this.log.error("failed to handle http request", { error: e, path });
+
+			if (res.headersSent === false) {
+				res.writeHead(500, { "Content-Type": "text/plain" });
+			}
+			res.end("internal server error\n");
+		}
+	}
+
+	/**
+	 * Check if the bot is connected to Discord and the database, and if it holds the poll lease that ongoing requests were polled recently.
+	 * @returns Resolves with whether the bot is healthy and the result of each check.
+	 */
+	async healthCheck(): Promise<{
+		healthy: boolean,
+		discord: boolean,
+		database: boolean,
+		polling: boolean,
+		poll_lease: boolean,
+		last_poll_time: string|null,
+	}> {
+		const discordOk = this.discord !== undefined && this.discord.isReady();
+
+		let databaseOk = true;
+		try {
+			await new Promise<void>((resolve, reject) => {
+				const timeout = setTimeout(() => reject(new Error(`database did not respond within ${HEALTH_CHECK_DB_TIMEOUT}ms`)), HEALTH_CHECK_DB_TIMEOUT);
+				this.db.ping()
+					.then(resolve, reject)
+					.finally(() => clearTimeout(timeout));
+			});
+		} catch (e) {
+			this.log.warn("health check failed to ping database", { error: e });
+			databaseOk = false;
+		}
+
+		// Only the instance with the poll lease polls, before the first poll finishes count from when the bot started
+		const pollLease = this.holdsPollLease();
+		let pollingOk = true;
+		if (pollLease === true) {
+			const lastPoll = this.lastPollTime !== null ? this.lastPollTime : this.startTime;
+			pollingOk = moment().valueOf() - lastPoll <= this.cfg.http.maxPollAgeSeconds * 1000;
+		}
+
+		return {
+			healthy: discordOk && databaseOk && pollingOk,
+			discord: discordOk,
+			database: databaseOk,
+			polling: pollingOk,
+			poll_lease: pollLease,
+			last_poll_time: this.lastPollTime !== null ? moment(this.lastPollTime).toISOString() : null,
+		};
+	}
+
+	/**
+	 * Record the power state of a virtual machine so it can be reported in metrics.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @param power The power state, or undefined if it could not be determined.
+	 */
+	observePowerState(vmName: string, power: VMPowerState|undefined) {
+		this.vmPowerStates.set(vmName, {
+			power,
+			time: moment().valueOf(),
+		});
+	}
+
+	/**
+	 * Check the power state of virtual machines whose last known power state is old, so it can be reported in metrics. Failures are logged.
+	 * @returns Resolves when done.
+	 */
+	async refreshPowerStates(): Promise<void> {
+		const now = moment().valueOf();
+		await Promise.all(this.cfg.vms.map(async (vmCfg) => {
+			const known = this.vmPowerStates.get(vmCfg.friendlyName);
+			if (known !== undefined && now - known.time < VM_POWER_STATE_METRIC_MAX_AGE) {
+				return;
+			}
+
+			try {
+				this.observePowerState(vmCfg.friendlyName, await this.vmCompute(vmCfg).powerState(vmCfg));
+			} catch (e) {
+				this.log.warn("failed to get power state for metrics", { error: e, vm_name: vmCfg.friendlyName });
+			}
+		}));
+	}
+
+	/**
+	 * Collect metrics. Power states are the last ones this instance observed, requests for metrics never call compute providers.
+	 * @returns Resolves with metrics in Prometheus' text exposition format.
+	 * @throws {Error} If power requests could not be counted.
+	 */
+	async metricsText(): Promise<string> {
+		// Power requests
+		const powerRequests = new Gauge("discord_azure_boot_power_requests", "Number of power requests by stage and target power state.");
+		const counts = await this.db.power_requests.countByStage();
+		counts.forEach((count) => {
+			powerRequests.set({
+				stage: count.stage,
+				target: powerStateLabel(count.target_power),
+			}, count.count);
+		});
+
+		// Power state of virtual machines
+		const vmPowerState = new Gauge("discord_azure_boot_vm_power_state", "1 for the current power state of each virtual machine, 0 for the others.");
+		this.cfg.vms.forEach((vmCfg) => {
+			const known = this.vmPowerStates.get(vmCfg.friendlyName);
+			const current = known !== undefined ? powerStateLabel(known.power) : "unknown";
+
+			Object.values(VMPowerState).map((power) => powerStateLabel(power))
+				.concat([ "unknown" ])
+				.forEach((state) => {
+					vmPowerState.set({ vm: vmCfg.friendlyName, state }, state === current ? 1 : 0);
+				});
+		});
+
+		// Polling
+		const lastPoll = new Gauge("discord_azure_boot_last_poll_timestamp_seconds", "Unix time at which ongoing requests were last polled successfully.");
+		if (this.lastPollTime !== null) {
+			lastPoll.set({}, this.lastPollTime / 1000);
+		}
+
+		return metricsText([
+			powerRequests,
+			vmPowerState,
+			this.pollCycleDuration,
+			lastPoll,
+			this.computeCallDuration,
+			this.computeCallErrors,
+		]);
+	}
+
+  /**
+	 * Run until an exit signal is sent to the process.
+	 */
+  async waitForExit() {
+		await new Promise<void>((resolve, reject) => {
+			process.on("SIGTERM", resolve);
+			process.on("SIGINT", resolve);
+		});
+  }
+}
+
+/**
+ * Main entrypoint
+ * @param log Logger
+ */
+async function main(log) {
+  // Load configuration
+  if (process.env.DISCORD_AZURE_BOOT_CONFIG_FILE === undefined) {
+    throw new Error("DISCORD_AZURE_BOOT_CONFIG_FILE env var must be set to the absolute path of a JSON configuration file");
+  }
+  const cfg = await loadConfig(process.env.DISCORD_AZURE_BOOT_CONFIG_FILE);
+
+  const bot = new Bot(cfg, log);
+  await bot.init();
+  bot.watchConfig(process.env.DISCORD_AZURE_BOOT_CONFIG_FILE);
+
+	await bot.waitForExit();
+
+  await bot.cleanup();
+	
+}
+
+// Invoke main, unless imported by tests
+if (require.main === module) {
+	const log = winston.createLogger({
+		format: winston.format.combine(
+			winston.format.errors({ stack: true }),
+			winston.format.prettyPrint()
+		),
+		level: "debug",
+		transports: [
+			new winston.transports.Console(),
+		],
+	});
+
+	main(log)
+		.then(() => {
+			log.info("done");
+			process.exit(0);
+		})
+		.catch((e) => {
+			log.error("failed to run main", { error: e });
+			process.exit(1);
+		});
 }
 
-// Invoke main
-const log = winston.createLogger({
-	format: winston.format.combine(
-    winston.format.errors({ stack: true }),
-    winston.format.prettyPrint()
-  ),
-	level: "debug",
-	transports: [
-		new winston.transports.Console(),
-	],
-});
-
-main(log)
-  .then(() => {
-		log.info("done");
-	  process.exit(0);
-  })
-  .catch((e) => {
-	  log.error("failed to run main", { error: e });
-	  process.exit(1);
-  });
+export { Bot, BootRequest, PowerRequest, DiscordCtrlMsg, DiscordInteraction, DiscordHTTPError };
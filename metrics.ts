@@ -0,0 +1,261 @@
+/**
+ * Label names and values which identify one series of a metric.
+ */
+export type MetricLabels = { [name: string]: string };
+
+/**
+ * Format labels the way Prometheus' text exposition format expects.
+ * @param labels The labels.
+ * @returns Labels like {a="1",b="2"}, or an empty string if there are none.
+ */
+function formatLabels(labels: MetricLabels): string {
+	const names = Object.keys(labels).sort();
+	if (names.length === 0) {
+		return "";
+	}
+
+	const pairs = names.map((name) => {
+		const value = labels[name]
+			.replace(/\\/g, "\\\\")
+			.replace(/"/g, "\\\"")
+			.replace(/\n/g, "\\n");
+		return `${name}="${value}"`;
+	});
+
+	return `{${pairs.join(",")}}`;
+}
+
+/**
+ * A metric which can be exported in Prometheus' text exposition format.
+ */
+export interface Metric {
+	/**
+	 * Build the metric's lines in Prometheus' text exposition format, including its HELP and TYPE lines.
+	 * @returns The lines.
+	 */
+	lines(): string[];
+}
+
+/**
+ * A value which only goes up, like the number of errors.
+ */
+export class Counter implements Metric {
+	/**
+	 * Name of the metric.
+	 */
+	name: string;
+
+	/**
+	 * Description of the metric.
+	 */
+	help: string;
+
+	/**
+	 * Current value of each series. Keys are formatted labels.
+	 */
+	values: Map<string, number>;
+
+	/**
+	 * Create a new Counter.
+	 * @param name Name of the metric.
+	 * @param help Description of the metric.
+	 */
+	constructor(name: string, help: string) {
+		this.name = name;
+		this.help = help;
+		this.values = new Map();
+	}
+
+	/**
+	 * Increase the value of a series.
+	 * @param labels Labels of the series.
+	 * @param [amount] How much to increase by, defaults to 1.
+	 */
+	inc(labels: MetricLabels, amount: number = 1): void {
+		const key = formatLabels(labels);
+		const value = this.values.get(key);
+		this.values.set(key, (value === undefined ? 0 : value) + amount);
+	}
+
+	lines(): string[] {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} counter`,
+		];
+		this.values.forEach((value, key) => lines.push(`${this.name}${key} ${value}`));
+		return lines;
+	}
+}
+
+/**
+ * A value which can go up and down, like the number of ongoing requests.
+ */
+export class Gauge implements Metric {
+	/**
+	 * Name of the metric.
+	 */
+	name: string;
+
+	/**
+	 * Description of the metric.
+	 */
+	help: string;
+
+	/**
+	 * Current value of each series. Keys are formatted labels.
+	 */
+	values: Map<string, number>;
+
+	/**
+	 * Create a new Gauge.
+	 * @param name Name of the metric.
+	 * @param help Description of the metric.
+	 */
+	constructor(name: string, help: string) {
+		this.name = name;
+		this.help = help;
+		this.values = new Map();
+	}
+
+	/**
+	 * Set the value of a series.
+	 * @param labels Labels of the series.
+	 * @param value The new value.
+	 */
+	set(labels: MetricLabels, value: number): void {
+		this.values.set(formatLabels(labels), value);
+	}
+
+	/**
+	 * Remove all series, so series which no longer exist aren't exported.
+	 */
+	reset(): void {
+		this.values.clear();
+	}
+
+	lines(): string[] {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} gauge`,
+		];
+		this.values.forEach((value, key) => lines.push(`${this.name}${key} ${value}`));
+		return lines;
+	}
+}
+
+/**
+ * Observations of one histogram series.
+ */
+interface HistogramSeries {
+	/**
+	 * Labels of the series.
+	 */
+	labels: MetricLabels;
+
+	/**
+	 * Number of observations less than or equal to each bucket's upper bound, in the same order as the buckets.
+	 */
+	bucketCounts: number[];
+
+	/**
+	 * Sum of all observations.
+	 */
+	sum: number;
+
+	/**
+	 * Number of observations.
+	 */
+	count: number;
+}
+
+/**
+ * Counts observations, like durations, in buckets.
+ */
+export class Histogram implements Metric {
+	/**
+	 * Name of the metric.
+	 */
+	name: string;
+
+	/**
+	 * Description of the metric.
+	 */
+	help: string;
+
+	/**
+	 * Upper bounds of the buckets, in ascending order.
+	 */
+	buckets: number[];
+
+	/**
+	 * Observations of each series. Keys are formatted labels.
+	 */
+	series: Map<string, HistogramSeries>;
+
+	/**
+	 * Create a new Histogram.
+	 * @param name Name of the metric.
+	 * @param help Description of the metric.
+	 * @param buckets Upper bounds of the buckets, in ascending order. A +Inf bucket is always added.
+	 */
+	constructor(name: string, help: string, buckets: number[]) {
+		this.name = name;
+		this.help = help;
+		this.buckets = buckets;
+		this.series = new Map();
+	}
+
+	/**
+	 * Record an observation.
+	 * @param labels Labels of the series.
+	 * @param value The observed value.
+	 */
+	observe(labels: MetricLabels, value: number): void {
+		const key = formatLabels(labels);
+		let series = this.series.get(key);
+		if (series === undefined) {
+			series = {
+				labels,
+				bucketCounts: this.buckets.map(() => 0),
+				sum: 0,
+				count: 0,
+			};
+			this.series.set(key, series);
+		}
+
+		this.buckets.forEach((bound, i) => {
+			if (value <= bound) {
+				series.bucketCounts[i]++;
+			}
+		});
+		series.sum += value;
+		series.count++;
+	}
+
+	lines(): string[] {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} histogram`,
+		];
+
+		this.series.forEach((series, key) => {
+			this.buckets.forEach((bound, i) => {
+				lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.bucketCounts[i]}`);
+			});
+			lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+			lines.push(`${this.name}_sum${key} ${series.sum}`);
+			lines.push(`${this.name}_count${key} ${series.count}`);
+		});
+
+		return lines;
+	}
+}
+
+/**
+ * Build the text of a Prometheus metrics endpoint.
+ * @param metrics The metrics to include.
+ * @returns Metrics in Prometheus' text exposition format.
+ */
+export function metricsText(metrics: Metric[]): string {
+	return metrics.map((metric) => metric.lines().join("\n")).join("\n") + "\n";
+}
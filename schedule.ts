@@ -0,0 +1,129 @@
+import { parseExpression as parseCronExpression } from "cron-parser";
+import moment from "moment";
+
+import { QuietHoursWindow } from "./config";
+
+/**
+ * Formats accepted for one-off scheduled job times, in the bot's local time zone.
+ */
+const SCHEDULE_TIME_FORMATS = [
+	"YYYY-MM-DD HH:mm",
+	"YYYY-MM-DDTHH:mm",
+	"YYYY-MM-DD h:mm a",
+	"YYYY-MM-DD h:mma",
+];
+
+/**
+ * Parse the time of a one-off scheduled job.
+ * @param str Time entered by a user, in one of the SCHEDULE_TIME_FORMATS.
+ * @returns The unix time in milliseconds, or null if str is not a valid time.
+ */
+export function parseScheduleTime(str: string): number|null {
+	const time = moment(str.trim(), SCHEDULE_TIME_FORMATS, true);
+	if (time.isValid() === false) {
+		return null;
+	}
+
+	return time.valueOf();
+}
+
+/**
+ * Determine the next time a cron expression matches.
+ * @param cron A 5 field cron expression, in the bot's local time zone.
+ * @param after Unix time in milliseconds after which to find the next match.
+ * @returns The unix time in milliseconds of the next match.
+ * @throws {Error} If the cron expression is invalid.
+ */
+export function nextCronTime(cron: string, after: number): number {
+	if (cron.trim().split(/\s+/).length !== 5) {
+		throw new Error("cron expression must have 5 fields: minute, hour, day of month, month, and day of week");
+	}
+
+	const interval = parseCronExpression(cron, {
+		currentDate: new Date(after),
+	});
+
+	return interval.next().getTime();
+}
+
+/**
+ * A period of time during which quiet hours are in effect.
+ */
+export interface QuietHoursPeriod {
+	/**
+	 * Unix time in milliseconds when quiet hours begin.
+	 */
+	start: number;
+
+	/**
+	 * Unix time in milliseconds when quiet hours end.
+	 */
+	end: number;
+}
+
+/**
+ * Find the periods of quiet hours which start from the day before a time to a week after it.
+ * @param windows Quiet hours configuration.
+ * @param time Unix time in milliseconds.
+ * @returns The periods, in no particular order.
+ */
+function quietHoursPeriods(windows: QuietHoursWindow[], time: number): QuietHoursPeriod[] {
+	const periods = [];
+
+	for (let dayOffset = -1; dayOffset <= 7; dayOffset++) {
+		const day = moment(time).startOf("day").add(dayOffset, "days");
+
+		windows
+			.filter((window) => window.days.indexOf(day.day()) !== -1)
+			.forEach((window) => {
+				const start = moment(`${day.format("YYYY-MM-DD")} ${window.start}`, "YYYY-MM-DD HH:mm");
+				const end = moment(`${day.format("YYYY-MM-DD")} ${window.end}`, "YYYY-MM-DD HH:mm");
+				if (end.isSameOrBefore(start)) {
+					end.add(1, "day");
+				}
+
+				periods.push({ start: start.valueOf(), end: end.valueOf() });
+			});
+	}
+
+	return periods;
+}
+
+/**
+ * Find the quiet hours which are in effect at a time.
+ * @param windows Quiet hours configuration.
+ * @param time Unix time in milliseconds.
+ * @returns The quiet hours period, or null if it is not quiet hours. If periods overlap the one which ends last is returned.
+ */
+export function quietHoursAt(windows: QuietHoursWindow[], time: number): QuietHoursPeriod|null {
+	const current = quietHoursPeriods(windows, time)
+		.filter((period) => period.start <= time && time < period.end)
+		.sort((a, b) => b.end - a.end);
+	if (current.length === 0) {
+		return null;
+	}
+
+	return current[0];
+}
+
+/**
+ * Find when quiet hours will next be in effect.
+ * @param windows Quiet hours configuration.
+ * @param time Unix time in milliseconds.
+ * @returns Unix time in milliseconds when quiet hours next begin, time if it is currently quiet hours, or null if there are no quiet hours in the next week.
+ */
+export function nextQuietHoursStart(windows: QuietHoursWindow[], time: number): number|null {
+	if (quietHoursAt(windows, time) !== null) {
+		return time;
+	}
+
+	const starts = quietHoursPeriods(windows, time)
+		.map((period) => period.start)
+		.filter((start) => start > time)
+		.sort((a, b) => a - b);
+	if (starts.length === 0) {
+		return null;
+	}
+
+	return starts[0];
+}
@@ -0,0 +1,1971 @@
+import { MongoClient, ObjectId, Collection, Document } from "mongodb";
+import SQLiteDatabase from "better-sqlite3";
+import type { Database as SQLiteDB } from "better-sqlite3";
+import winston from "winston";
+
+import { BotConfig, VMConfig } from "./config";
+import { VMPowerState } from "./compute";
+import { PowerErrorRecord } from "./errors";
+
+/**
+ * Information identifying a Discord interaction.
+ */
+export interface InteractionID {
+	/**
+	 * The ID of the Discord interaction.
+	 */
+	id: string;
+
+	/**
+	 * The token for the Discord interaction.
+	 */
+	token: string;
+}
+
+/**
+ * Indentifies a Discord message to use as a control message. Can either be a vanilla message or an interaction.
+ */
+export type DiscordCtrlMsgID = DiscordCtrlTxtMsgID | DiscordCtrlInteractionID;
+
+/**
+ * Identifies a location in Discord where text messages can be sent.
+ */
+export interface DiscordChannelLocation {
+	/**
+	 * ID of the Discord guild in which this message exists.
+	 */
+	guildID: string;
+
+	/**
+	 * ID of the Discord channel in which this message exists.
+	 */
+	channelID: string;
+}
+
+/**
+ * Identifies a regular Discord message as the control message.
+ */
+export type DiscordCtrlTxtMsgID = {
+	ctrl_type: "TXT_MSG";
+
+	/**
+	 * Specifies a Discord guild and channel in which the message exists.
+	 */
+	location: DiscordChannelLocation;
+
+	/**
+	 * ID of the Discord message.
+	 */
+	msgID: string;
+};
+
+/**
+ * Identifies a DiscordCtrlMsgID as a DiscordCtrlTxtMsgID.
+ */
+export const DISCORD_CTRL_TXT_MSG = "TXT_MSG";
+
+/**
+ * Identifies a Discord interaction to use as the control message.
+ */
+export interface DiscordCtrlInteractionID extends InteractionID {
+	ctrl_type: "INTERACTION";
+
+	/**
+	 * The Discord guild and channel in which the interaction happened. Used to send a regular message instead once the interaction token expires. Undefined for control messages stored before this was recorded.
+	 */
+	location?: DiscordChannelLocation;
+
+	/**
+	 * The unix time in milliseconds when the interaction was created. Undefined for control messages stored before this was recorded.
+	 */
+	created_time?: number;
+}
+
+/**
+ * Identifies a DiscordCtrlMsgID as a DiscordCtrlInteractionID.
+ */
+export const DISCORD_CTRL_INTERACTION = "INTERACTION";
+
+/**
+ * Identifies the Discord user who made a request and where they made it.
+ */
+export interface DiscordRequester {
+	/**
+	 * ID of the Discord user.
+	 */
+	user_id: string;
+
+	/**
+	 * The Discord guild and channel in which the user made the request.
+	 */
+	location: DiscordChannelLocation;
+}
+
+/**
+ * Data serialized about a power request in the database.
+ */
+export interface PowerRequestData {
+	/**
+	 * Database ID of power request.
+	 */
+	_id?: string,
+
+	/**
+	 * Incremented by the database each time the power request is saved. Undefined if never saved, or stored before versions were recorded.
+	 */
+	version?: number;
+	
+	/**
+	 * Identifier of a Discord message which will be used to interact with the user.
+	 */
+	ctrl_msg_id: DiscordCtrlMsgID;
+	
+	/**
+	 * The virtual machine configuration for the server specified by the user.
+	 */
+	vm_cfg: VMConfig;
+
+	/**
+	 * The target virtual machine power state for the request. This must a terminal state.
+	 */
+	target_power: VMPowerState;
+
+	/**
+	 * The Discord user who requested the power change. Null if the bot made the request itself, like when a boot request's session expires. Undefined for power requests stored before requesters were recorded.
+	 */
+	requester?: DiscordRequester|null;
+
+	/**
+	 * Details about the current state of the power change process.
+	 */
+	stage: {
+		/**
+		 * The key in this stage object which holds information about the current stage.
+		 */
+		current: string;
+
+		/**
+		 * A variable which is inverted every time the power request is polled. This allows for 2 frame animations. Will be initialized to true.
+		 */
+		flip_flop: boolean,
+
+		/**
+		 * Not a stage. Set while the power request is waiting to retry after a transient error, cleared to null once a poll succeeds.
+		 */
+		retry?: {
+			/**
+			 * The number of transient errors which have occurred in a row.
+			 */
+			attempts: number;
+
+			/**
+			 * The unix time after which the power request will be polled again.
+			 */
+			next_time: number;
+
+			/**
+			 * Details of the most recent transient error.
+			 */
+			last_error: PowerErrorRecord;
+		}|null;
+
+		/**
+		 * A non-terminal state. This is the first state a power request is set to be in right after it is initialized.
+		 */
+		requested: {
+			/**
+			 * The unix time when the power request was made. Undefined for power requests stored before this was recorded.
+			 */
+			time?: number;
+		},
+
+		/**
+		 * A non-terminal state. Indicates the power change is currently taking place.
+		 */
+		in_progress?: {
+			/**
+			 * The unix time when the progress began.
+			 */
+			time: number;
+
+			/**
+			 * The virtual machine's power state before the power request started any changes.
+			 */
+			start_power: VMPowerState;
+
+			/**
+			 * The virtual machine's power state the last time the power request was polled. Null if the power state was unknown. Undefined for power requests stored before this was recorded.
+			 */
+			last_power?: VMPowerState|null;
+		};
+
+		/**
+		 * A terminal state. Indicates the power change succeeded.
+		 */
+		success?: {
+			/**
+			 * The unix time when the success occurred.
+			 */
+			time: number;
+		};
+
+		/**
+		 * A terminal state. Indicates an error occurred during the power change process.
+		 */
+		error?: {
+			/**
+			 * The unix time when the error occurred.
+			 */
+			time: number;
+			
+			/**
+			 * Internal error details. Not to be shown to the user. Power requests stored before errors were classified may hold other values.
+			 */
+			internal: PowerErrorRecord;
+
+			/**
+			 * User friendly error message.
+			 */
+			user: string;
+		};
+
+		/**
+		 * A terminal state. Indicates the power change took longer than the virtual machine's timeouts allow.
+		 */
+		timed_out?: {
+			/**
+			 * The unix time when the power request timed out.
+			 */
+			time: number;
+
+			/**
+			 * The number of minutes the power request was allowed to take.
+			 */
+			timeout_minutes: number;
+		};
+
+		/**
+		 * A terminal state. Indicates a user cancelled the power change before it finished.
+		 */
+		cancelled?: {
+			/**
+			 * The unix time when the power request was cancelled.
+			 */
+			time: number;
+
+			/**
+			 * The Discord user who cancelled the power request.
+			 */
+			requester: DiscordRequester;
+
+			/**
+			 * ID of the power request which returns the virtual machine to the power state it was in before the cancelled power request began. If undefined then the cancellation was not reverted.
+			 */
+			revert_power_request_id?: string;
+		};
+	};
+}
+
+/**
+ * Boot request information which is stored in the database.
+ */
+export interface BootRequestData {
+	/**
+	 * Database ID of boot request.
+	 */
+	_id?: string,
+
+	/**
+	 * Incremented by the database each time the boot request is saved. Undefined if never saved, or stored before versions were recorded.
+	 */
+	version?: number;
+	
+	/**
+	 * The virtual machine which the user requested be started.
+	 */
+	vm_cfg: VMConfig;
+
+	/**
+	 * Location where follow up messages about this boot request can be sent.
+	 */
+	follow_up_location: DiscordChannelLocation;
+
+	/**
+	 * ID of the Discord user who requested the boot.
+	 */
+	requester_user_id: string;
+
+	/**
+	 * Information about the current state of the boot request lifecycle.
+	 */
+	stage: {
+		current: BootRequestStage;
+		
+		requested: {};
+
+		booting?: {
+			/**
+			 * ID of the power request which is starting up the machine.
+			 */
+			power_request_id: string;
+		};
+
+		running?: {
+			/**
+			 * The unix time at which the virtual machine finished booting.
+			 */
+			start_time: number;
+			
+			/**
+			 * The unix time at which the boot request will expire and the server will be shut off.
+			 */
+			expire_time: number;
+
+			/**
+			 * Identifying information for a control message which can be used to communicate expiration warning information. If undefined or null then one has not been sent for the current expire_time.
+			 */
+			expire_ctrl_msg_id?: DiscordCtrlMsgID|null;
+
+			/**
+			 * Identifying information for a control message which was sent to warn users that the virtual machine will be shut down because its voice channels are empty. If undefined or null then a warning is not currently active.
+			 */
+			voice_empty_ctrl_msg_id?: DiscordCtrlMsgID|null;
+
+			/**
+			 * The unix time at which the game server's player count was last checked. If undefined then it has never been checked.
+			 */
+			players_checked_time?: number;
+
+			/**
+			 * The unix time since which the game server has had no players. If undefined or null then players were on the server the last time it was checked.
+			 */
+			players_idle_since?: number|null;
+
+			/**
+			 * True if expire_time was moved earlier so the session ends when quiet hours begin.
+			 */
+			quiet_hours?: boolean;
+
+			/**
+			 * The unix time at which the session last resumed because its shutdown was cancelled. If undefined then it has not been resumed.
+			 */
+			resumed_time?: number;
+		};
+
+		shutting_down?: {
+			/**
+			 * ID of the power request which is shutting down the virtual machine.
+			 */
+			power_request_id: string;
+		};
+
+		success?: {
+			/**
+			 * The unix time when the virtual machine finished shutting down.
+			 */
+			time: number;
+		};
+
+		cancelled?: {
+			/**
+			 * The unix time when the boot or shutdown power request was cancelled.
+			 */
+			time: number;
+		};
+
+		error?: {
+			/**
+			 * The unix time when the error occurred.
+			 */
+			time: number;
+
+			/**
+			 * Internal error details. Not to be shown to the user.
+			 */
+			internal: string;
+
+			/**
+			 * User friendly error message.
+			 */
+			user: string;
+		};
+	};
+}
+
+/**
+ * A boot or shutdown which will be performed at a later time, stored in the database.
+ */
+export interface ScheduledJobData {
+	/**
+	 * Database ID of the scheduled job.
+	 */
+	_id?: string;
+
+	/**
+	 * Friendly name of the virtual machine to boot or shut down. The virtual machine's configuration is looked up when the job runs so it reflects any changes made in the meantime.
+	 */
+	vm_name: string;
+
+	/**
+	 * Whether the job boots or shuts down the virtual machine.
+	 */
+	action: "boot" | "shutdown";
+
+	/**
+	 * Cron expression for recurring jobs, in the bot's local time zone. Null if the job only runs once.
+	 */
+	cron: string|null;
+
+	/**
+	 * The unix time when the job will next run.
+	 */
+	run_time: number;
+
+	/**
+	 * The Discord user who scheduled the job. Control messages for the job are sent to the channel where it was scheduled.
+	 */
+	creator: DiscordRequester;
+}
+
+/**
+ * A maintenance lock which stops a virtual machine from being booted, stored in the database.
+ */
+export interface VMLockData {
+	/**
+	 * Database ID of the lock.
+	 */
+	_id?: string;
+
+	/**
+	 * Friendly name of the locked virtual machine. A virtual machine can have at most one lock.
+	 */
+	vm_name: string;
+
+	/**
+	 * Why the virtual machine is locked, shown to users who try to boot it.
+	 */
+	reason: string;
+
+	/**
+	 * The Discord user who locked the virtual machine.
+	 */
+	locked_by: DiscordRequester;
+
+	/**
+	 * The unix time when the virtual machine was locked.
+	 */
+	start_time: number;
+
+	/**
+	 * The unix time when the lock expires. Null if the lock lasts until the virtual machine is unlocked.
+	 */
+	end_time: number|null;
+}
+
+/**
+ * A Discord user's request to be sent a direct message when a virtual machine finishes starting or stopping, stored in the database.
+ */
+export interface NotifySubscriptionData {
+	/**
+	 * Database ID of the subscription.
+	 */
+	_id?: string;
+
+	/**
+	 * Friendly name of the virtual machine.
+	 */
+	vm_name: string;
+
+	/**
+	 * ID of the Discord user to notify. A user can have at most one subscription per virtual machine.
+	 */
+	user_id: string;
+
+	/**
+	 * The unix time when the user subscribed.
+	 */
+	time: number;
+}
+
+/**
+ * A lease which lets one bot instance at a time perform some work, stored in the database. Leases expire unless they are renewed, so another instance can take over if the holder stops.
+ */
+export interface LeaseData {
+	/**
+	 * Database ID of the lease.
+	 */
+	_id?: string;
+
+	/**
+	 * Name of the work the lease is for. There is at most one lease per name.
+	 */
+	name: string;
+
+	/**
+	 * ID of the bot instance, or the single operation, which holds the lease.
+	 */
+	holder: string;
+
+	/**
+	 * The unix time when the lease expires.
+	 */
+	expire_time: number;
+}
+
+/**
+ * Indicates the stages of a BootRequest's life cycle.
+ */
+export enum BootRequestStage {
+	/**
+	 * Non-terminal state. The request has just been submitted and initialized but nothing has been done yet.
+	 */
+	Requested = "requested",
+
+	/**
+	 * Non-terminal state. The virtual machine is in the process of booting.
+	 */
+	Booting = "booting",
+
+	/**
+	 * Non-terminal state. The virtual machine is running.
+	 */
+	Running = "running",
+
+	/**
+	 * Non-terminal state. The virtual machine is being shut down.
+	 */
+	ShuttingDown = "shutting_down",
+
+	/**
+	 * Terminal state. The boot request concluded successfully.
+	 */
+	Success = "success",
+
+	/**
+	 * Terminal state. The boot request failed.
+	 */
+	Error = "error",
+
+	/**
+	 * Terminal state. A user cancelled the power request which was booting or shutting down the virtual machine. The virtual machine is no longer managed by the boot request.
+	 */
+	Cancelled = "cancelled",
+}
+
+/**
+ * The BootRequestStage values which are non-terminal and after the boot has started.
+ */
+export const BOOT_REQUEST_ONGOING_STAGES = [
+	BootRequestStage.Booting,
+	BootRequestStage.Running,
+	BootRequestStage.ShuttingDown,
+];
+
+/**
+ * The PowerRequestData stage.current values which are non-terminal.
+ */
+export const POWER_REQUEST_ONGOING_STAGES = [
+	"requested",
+	"in_progress",
+];
+
+/**
+ * Narrows down which power requests are retrieved. Fields which are undefined match all power requests.
+ */
+export interface PowerRequestFilter {
+	/**
+	 * Friendly name of the virtual machine.
+	 */
+	vmName?: string;
+
+	/**
+	 * ID of the Discord user who requested the power change.
+	 */
+	userID?: string;
+}
+
+/**
+ * The number of power requests in a stage which have the same target power state.
+ */
+export interface PowerRequestStageCount {
+	/**
+	 * The stage.current value of the power requests.
+	 */
+	stage: string;
+
+	/**
+	 * The power state the power requests are trying to reach.
+	 */
+	target_power: VMPowerState;
+
+	/**
+	 * Number of power requests.
+	 */
+	count: number;
+}
+
+/**
+ * Thrown when saving data which someone else saved since it was loaded, as saving would overwrite their changes.
+ */
+export class SaveConflictError extends Error {
+	/**
+	 * Create a new SaveConflictError.
+	 * @param kind What kind of data was being saved, like "power request".
+	 * @param id Database ID of the data.
+	 */
+	constructor(kind: string, id: string) {
+		super(`${kind} with ID ${id} was changed since it was loaded`);
+		this.name = "SaveConflictError";
+	}
+}
+
+/**
+ * Stores power requests.
+ */
+export interface PowerRequestRepo {
+	/**
+	 * Retrieve a power request by its database ID.
+	 * @param id Database ID.
+	 * @returns Resolves with the power request, or null if it does not exist.
+	 */
+	get(id: string): Promise<PowerRequestData|null>;
+
+	/**
+	 * Retrieve a power request by its control message.
+	 * @param ctrlMsgID Identifier of the power request's control message.
+	 * @returns Resolves with the power request, or null if it does not exist.
+	 */
+	getByCtrlMsg(ctrlMsgID: DiscordCtrlMsgID): Promise<PowerRequestData|null>;
+
+	/**
+	 * Store a power request and increment data.version. If data has a database ID then that power request is updated, otherwise the power request with the same control message is updated, or a new power request is created if there is none.
+	 * @param data Power request to store.
+	 * @returns Resolves with the power request's database ID.
+	 * @throws {SaveConflictError} If data has a database ID and the stored power request's version is not data.version, as it was saved since data was loaded.
+	 */
+	save(data: PowerRequestData): Promise<string>;
+
+	/**
+	 * Retrieve all power requests which are in a non-terminal stage.
+	 * @returns Resolves with ongoing power requests.
+	 */
+	listOngoing(): Promise<PowerRequestData[]>;
+
+	/**
+	 * Retrieve a power request which is in a non-terminal stage for a virtual machine.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @returns Resolves with the power request, or null if there is none.
+	 */
+	findOngoingByVM(vmName: string): Promise<PowerRequestData|null>;
+
+	/**
+	 * Count the power requests which are in progress for a virtual machine.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @returns Resolves with the number of in progress power requests.
+	 */
+	countInProgressByVM(vmName: string): Promise<number>;
+
+	/**
+	 * Retrieve the most recent successful power requests for a virtual machine which started from a power state. Newest first.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @param startPower The power state the virtual machine was in when the power requests started.
+	 * @param limit The maximum number of power requests to retrieve.
+	 * @returns Resolves with the power requests.
+	 */
+	listRecentSuccesses(vmName: string, startPower: VMPowerState, limit: number): Promise<PowerRequestData[]>;
+
+	/**
+	 * Count the power requests which successfully turned off a virtual machine after a time.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @param time Unix time in milliseconds after which power requests must have succeeded.
+	 * @returns Resolves with the number of power requests.
+	 */
+	countShutdownsSince(vmName: string, time: number): Promise<number>;
+
+	/**
+	 * Retrieve the power requests for a virtual machine which succeeded during a time range. Oldest first.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @param start Unix time in milliseconds at or after which power requests must have succeeded.
+	 * @param end Unix time in milliseconds before which power requests must have succeeded.
+	 * @returns Resolves with the power requests.
+	 */
+	listSuccessesBetween(vmName: string, start: number, end: number): Promise<PowerRequestData[]>;
+
+	/**
+	 * Retrieve the last power request for a virtual machine which succeeded before a time.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @param time Unix time in milliseconds before which the power request must have succeeded.
+	 * @returns Resolves with the power request, or null if there is none.
+	 */
+	findLastSuccessBefore(vmName: string, time: number): Promise<PowerRequestData|null>;
+
+	/**
+	 * Retrieve past and ongoing power requests. Newest first.
+	 * @param filter Narrows down which power requests are retrieved.
+	 * @param offset The number of power requests to skip.
+	 * @param [limit] The maximum number of power requests to retrieve. If undefined then all are retrieved.
+	 * @returns Resolves with the power requests.
+	 */
+	listHistory(filter: PowerRequestFilter, offset: number, limit?: number): Promise<PowerRequestData[]>;
+
+	/**
+	 * Count past and ongoing power requests.
+	 * @param filter Narrows down which power requests are counted.
+	 * @returns Resolves with the number of power requests.
+	 */
+	countHistory(filter: PowerRequestFilter): Promise<number>;
+
+	/**
+	 * Count all power requests, grouped by their stage and target power state.
+	 * @returns Resolves with the number of power requests in each group. Groups with no power requests are left out.
+	 */
+	countByStage(): Promise<PowerRequestStageCount[]>;
+}
+
+/**
+ * Stores boot requests.
+ */
+export interface BootRequestRepo {
+	/**
+	 * Retrieve a boot request by its database ID.
+	 * @param id Database ID.
+	 * @returns Resolves with the boot request, or null if it does not exist.
+	 */
+	get(id: string): Promise<BootRequestData|null>;
+
+	/**
+	 * Store a boot request and increment data.version. If data has a database ID then that boot request is updated, otherwise a new boot request is created.
+	 * @param data Boot request to store.
+	 * @returns Resolves with the boot request's database ID.
+	 * @throws {SaveConflictError} If data has a database ID and the stored boot request's version is not data.version, as it was saved since data was loaded.
+	 */
+	save(data: BootRequestData): Promise<string>;
+
+	/**
+	 * Retrieve all boot requests which are in a BOOT_REQUEST_ONGOING_STAGES stage.
+	 * @returns Resolves with ongoing boot requests.
+	 */
+	listOngoing(): Promise<BootRequestData[]>;
+
+	/**
+	 * Retrieve the boot request which is in a BOOT_REQUEST_ONGOING_STAGES stage for a virtual machine.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @returns Resolves with the boot request, or null if there is none.
+	 */
+	findOngoingByVM(vmName: string): Promise<BootRequestData|null>;
+}
+
+/**
+ * Stores scheduled jobs.
+ */
+export interface ScheduledJobRepo {
+	/**
+	 * Retrieve a scheduled job by its database ID.
+	 * @param id Database ID.
+	 * @returns Resolves with the scheduled job, or null if it does not exist.
+	 */
+	get(id: string): Promise<ScheduledJobData|null>;
+
+	/**
+	 * Store a scheduled job. If data has a database ID then that scheduled job is updated, otherwise a new scheduled job is created.
+	 * @param data Scheduled job to store.
+	 * @returns Resolves with the scheduled job's database ID.
+	 */
+	save(data: ScheduledJobData): Promise<string>;
+
+	/**
+	 * Delete a scheduled job.
+	 * @param id Database ID.
+	 * @returns Resolves with true if the scheduled job existed.
+	 */
+	delete(id: string): Promise<boolean>;
+
+	/**
+	 * Retrieve all scheduled jobs. Soonest first.
+	 * @returns Resolves with the scheduled jobs.
+	 */
+	list(): Promise<ScheduledJobData[]>;
+
+	/**
+	 * Retrieve the scheduled jobs which should have run by a time. Soonest first.
+	 * @param time Unix time in milliseconds.
+	 * @returns Resolves with the scheduled jobs.
+	 */
+	listDue(time: number): Promise<ScheduledJobData[]>;
+}
+
+/**
+ * Stores virtual machine locks.
+ */
+export interface VMLockRepo {
+	/**
+	 * Retrieve the lock for a virtual machine which has not expired.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @param time Unix time in milliseconds at which the lock must be active.
+	 * @returns Resolves with the lock, or null if the virtual machine is not locked.
+	 */
+	findActive(vmName: string, time: number): Promise<VMLockData|null>;
+
+	/**
+	 * Store a lock, replacing any existing lock for the same virtual machine.
+	 * @param data Lock to store.
+	 * @returns Resolves with the lock's database ID.
+	 */
+	save(data: VMLockData): Promise<string>;
+
+	/**
+	 * Remove the lock for a virtual machine.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @returns Resolves with true if a lock existed.
+	 */
+	delete(vmName: string): Promise<boolean>;
+}
+
+/**
+ * Stores notification subscriptions.
+ */
+export interface NotifySubscriptionRepo {
+	/**
+	 * Retrieve the subscriptions for a virtual machine.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @returns Resolves with the subscriptions, oldest first.
+	 */
+	listByVM(vmName: string): Promise<NotifySubscriptionData[]>;
+
+	/**
+	 * Store a subscription, replacing any existing subscription by the same user for the same virtual machine.
+	 * @param data Subscription to store.
+	 * @returns Resolves with the subscription's database ID.
+	 */
+	save(data: NotifySubscriptionData): Promise<string>;
+
+	/**
+	 * Remove a user's subscription for a virtual machine.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @param userID ID of the Discord user.
+	 * @returns Resolves with true if a subscription existed.
+	 */
+	delete(vmName: string, userID: string): Promise<boolean>;
+
+	/**
+	 * Remove all subscriptions for a virtual machine.
+	 * @param vmName Friendly name of the virtual machine.
+	 * @returns Resolves when removed.
+	 */
+	deleteByVM(vmName: string): Promise<void>;
+}
+
+/**
+ * Stores leases.
+ */
+export interface LeaseRepo {
+	/**
+	 * Acquire or renew a lease. Succeeds if the lease does not exist, has expired, or is already held by holder.
+	 * @param name Name of the lease.
+	 * @param holder ID of the bot instance, or the single operation, which wants the lease.
+	 * @param time The current unix time in milliseconds.
+	 * @param expireTime The unix time in milliseconds when the lease will expire if it is acquired.
+	 * @returns Resolves with true if holder now holds the lease, false if another instance holds it.
+	 */
+	acquire(name: string, holder: string, time: number, expireTime: number): Promise<boolean>;
+
+	/**
+	 * Give up a lease so another instance can acquire it immediately. Does nothing if holder does not hold the lease.
+	 * @param name Name of the lease.
+	 * @param holder ID of the bot instance, or the single operation, which holds the lease.
+	 * @returns Resolves when released.
+	 */
+	release(name: string, holder: string): Promise<void>;
+}
+
+/**
+ * Stores all the bot's data.
+ */
+export interface BotDB {
+	/**
+	 * Power requests.
+	 */
+	power_requests: PowerRequestRepo;
+
+	/**
+	 * Boot requests.
+	 */
+	boot_requests: BootRequestRepo;
+
+	/**
+	 * Scheduled jobs.
+	 */
+	scheduled_jobs: ScheduledJobRepo;
+
+	/**
+	 * Virtual machine locks.
+	 */
+	vm_locks: VMLockRepo;
+
+	/**
+	 * Notification subscriptions.
+	 */
+	notify_subscriptions: NotifySubscriptionRepo;
+
+	/**
+	 * Leases which coordinate multiple bot instances.
+	 */
+	leases: LeaseRepo;
+
+	/**
+	 * Check the database can be reached.
+	 * @returns Resolves if the database responded.
+	 * @throws {Error} If the database could not be reached.
+	 */
+	ping(): Promise<void>;
+
+	/**
+	 * Disconnect from the database.
+	 * @returns Resolves when disconnected.
+	 */
+	close(): Promise<void>;
+}
+
+/**
+ * Convert a MongoDB document into data with a string database ID.
+ * @param doc MongoDB document.
+ * @returns Data, or null if doc is null.
+ */
+function fromMongoDoc<T>(doc: Document|null): T|null {
+	if (doc === null) {
+		return null;
+	}
+
+	return {
+		...doc,
+		_id: doc._id.toHexString(),
+	} as unknown as T;
+}
+
+/**
+ * Convert data into a MongoDB document by removing its database ID, as the ID is stored as an ObjectId.
+ * @param data Data with an optional string database ID.
+ * @returns MongoDB document without an _id field.
+ */
+function toMongoDoc<T extends { _id?: string }>(data: T): Document {
+	const doc = { ...data };
+	delete doc._id;
+	return doc;
+}
+
+/**
+ * Build a MongoDB filter which only matches a document if it has not been saved since it was loaded.
+ * @param objectId The document's ID.
+ * @param version The version the document had when it was loaded.
+ * @returns MongoDB query.
+ */
+function mongoVersionQuery(objectId: ObjectId, version: number|undefined): Document {
+	return {
+		_id: objectId,
+		version: version === undefined ? { $exists: false } : version,
+	};
+}
+
+/**
+ * Convert a string database ID into a MongoDB ObjectId.
+ * @param id String database ID.
+ * @returns The ObjectId, or null if id is not a valid ObjectId, then no document can have it.
+ */
+function toObjectId(id: string): ObjectId|null {
+	if (ObjectId.isValid(id) === false) {
+		return null;
+	}
+
+	return new ObjectId(id);
+}
+
+/**
+ * Build a MongoDB query which matches power requests.
+ * @param filter Power request filter.
+ * @returns MongoDB query.
+ */
+function mongoPowerRequestQuery(filter: PowerRequestFilter): Document {
+	const query: Document = {};
+	if (filter.vmName !== undefined) {
+		query["vm_cfg.friendlyName"] = filter.vmName;
+	}
+	if (filter.userID !== undefined) {
+		query["requester.user_id"] = filter.userID;
+	}
+
+	return query;
+}
+
+/**
+ * Stores power requests in a MongoDB collection.
+ */
+class MongoPowerRequestRepo implements PowerRequestRepo {
+	/**
+	 * Power requests collection.
+	 */
+	collection: Collection;
+
+	/**
+	 * Create a new MongoPowerRequestRepo.
+	 * @param collection Power requests collection.
+	 */
+	constructor(collection: Collection) {
+		this.collection = collection;
+	}
+
+	async get(id: string): Promise<PowerRequestData|null> {
+		const objectId = toObjectId(id);
+		if (objectId === null) {
+			return null;
+		}
+
+		return fromMongoDoc(await this.collection.findOne({ _id: objectId }));
+	}
+
+	async getByCtrlMsg(ctrlMsgID: DiscordCtrlMsgID): Promise<PowerRequestData|null> {
+		return fromMongoDoc(await this.collection.findOne({ ctrl_msg_id: ctrlMsgID }));
+	}
+
+	async save(data: PowerRequestData): Promise<string> {
+		if (data._id !== undefined) {
+			const objectId = toObjectId(data._id);
+			if (objectId === null) {
+				throw new Error(`cannot update document with invalid ID ${data._id}`);
+			}
+
+			const version = data.version === undefined ? 1 : data.version + 1;
+			const res = await this.collection.updateOne(mongoVersionQuery(objectId, data.version), { $set: toMongoDoc({ ...data, version }) });
+			if (res.matchedCount === 0) {
+				throw new SaveConflictError("power request", data._id);
+			}
+
+			data.version = version;
+			return data._id;
+		}
+
+		const doc = toMongoDoc(data);
+		delete doc.version;
+		const res = await this.collection.findOneAndUpdate({ ctrl_msg_id: data.ctrl_msg_id }, { $set: doc, $inc: { version: 1 } }, { upsert: true, returnDocument: "after" });
+		data.version = res.value.version;
+		return res.value._id.toHexString();
+	}
+
+	async listOngoing(): Promise<PowerRequestData[]> {
+		const docs = await this.collection.find({ "stage.current": { $in: POWER_REQUEST_ONGOING_STAGES } }).toArray();
+		return docs.map((doc) => fromMongoDoc(doc));
+	}
+
+	async findOngoingByVM(vmName: string): Promise<PowerRequestData|null> {
+		return fromMongoDoc(await this.collection.findOne({
+			"vm_cfg.friendlyName": vmName,
+			"stage.current": { $in: POWER_REQUEST_ONGOING_STAGES },
+		}));
+	}
+
+	async countInProgressByVM(vmName: string): Promise<number> {
+		return await this.collection.countDocuments({ "vm_cfg.friendlyName": vmName, "stage.current": "in_progress" });
+	}
+
+	async listRecentSuccesses(vmName: string, startPower: VMPowerState, limit: number): Promise<PowerRequestData[]> {
+		const docs = await this.collection.find({
+			"vm_cfg.friendlyName": vmName,
+			"stage.current": "success",
+			"stage.in_progress.start_power": startPower,
+		}).sort({ "stage.success.time": -1 }).limit(limit).toArray();
+		return docs.map((doc) => fromMongoDoc(doc));
+	}
+
+	async countShutdownsSince(vmName: string, time: number): Promise<number> {
+		return await this.collection.countDocuments({
+			"vm_cfg.friendlyName": vmName,
+			target_power: { $ne: VMPowerState.Running },
+			"stage.current": "success",
+			"stage.success.time": { $gt: time },
+		});
+	}
+
+	async listSuccessesBetween(vmName: string, start: number, end: number): Promise<PowerRequestData[]> {
+		const docs = await this.collection.find({
+			"vm_cfg.friendlyName": vmName,
+			"stage.current": "success",
+			"stage.success.time": { $gte: start, $lt: end },
+		}).sort({ "stage.success.time": 1 }).toArray();
+		return docs.map((doc) => fromMongoDoc(doc));
+	}
+
+	async findLastSuccessBefore(vmName: string, time: number): Promise<PowerRequestData|null> {
+		const docs = await this.collection.find({
+			"vm_cfg.friendlyName": vmName,
+			"stage.current": "success",
+			"stage.success.time": { $lt: time },
+		}).sort({ "stage.success.time": -1 }).limit(1).toArray();
+		if (docs.length === 0) {
+			return null;
+		}
+
+		return fromMongoDoc(docs[0]);
+	}
+
+	async listHistory(filter: PowerRequestFilter, offset: number, limit?: number): Promise<PowerRequestData[]> {
+		let cursor = this.collection.find(mongoPowerRequestQuery(filter)).sort({ _id: -1 }).skip(offset);
+		if (limit !== undefined) {
+			cursor = cursor.limit(limit);
+		}
+
+		const docs = await cursor.toArray();
+		return docs.map((doc) => fromMongoDoc(doc));
+	}
+
+	async countHistory(filter: PowerRequestFilter): Promise<number> {
+		return await this.collection.countDocuments(mongoPowerRequestQuery(filter));
+	}
+
+	async countByStage(): Promise<PowerRequestStageCount[]> {
+		const groups = await this.collection.aggregate([
+			{
+				$group: {
+					_id: { stage: "$stage.current", target_power: "$target_power" },
+					count: { $sum: 1 },
+				},
+			},
+		]).toArray();
+
+		return groups.map((group) => {
+			return {
+				stage: group._id.stage,
+				target_power: group._id.target_power,
+				count: group.count,
+			};
+		});
+	}
+}
+
+/**
+ * Stores boot requests in a MongoDB collection.
+ */
+class MongoBootRequestRepo implements BootRequestRepo {
+	/**
+	 * Boot requests collection.
+	 */
+	collection: Collection;
+
+	/**
+	 * Create a new MongoBootRequestRepo.
+	 * @param collection Boot requests collection.
+	 */
+	constructor(collection: Collection) {
+		this.collection = collection;
+	}
+
+	async get(id: string): Promise<BootRequestData|null> {
+		const objectId = toObjectId(id);
+		if (objectId === null) {
+			return null;
+		}
+
+		return fromMongoDoc(await this.collection.findOne({ _id: objectId }));
+	}
+
+	async save(data: BootRequestData): Promise<string> {
+		if (data._id !== undefined) {
+			// If a database document already exists
+			const objectId = toObjectId(data._id);
+			if (objectId === null) {
+				throw new Error(`cannot update document with invalid ID ${data._id}`);
+			}
+
+			const version = data.version === undefined ? 1 : data.version + 1;
+			const res = await this.collection.updateOne(mongoVersionQuery(objectId, data.version), { $set: toMongoDoc({ ...data, version }) });
+			if (res.matchedCount === 0) {
+				throw new SaveConflictError("boot request", data._id);
+			}
+
+			data.version = version;
+			return data._id;
+		}
+
+		// No document in database for this boot request, insert one
+		const res = await this.collection.insertOne(toMongoDoc({ ...data, version: 1 }));
+		data.version = 1;
+		return res.insertedId.toHexString();
+	}
+
+	async listOngoing(): Promise<BootRequestData[]> {
+		const docs = await this.collection.find({ "stage.current": { $in: BOOT_REQUEST_ONGOING_STAGES } }).toArray();
+		return docs.map((doc) => fromMongoDoc(doc));
+	}
+
+	async findOngoingByVM(vmName: string): Promise<BootRequestData|null> {
+		return fromMongoDoc(await this.collection.findOne({
+			"vm_cfg.friendlyName": vmName,
+			"stage.current": { $in: BOOT_REQUEST_ONGOING_STAGES },
+		}));
+	}
+}
+
+/**
+ * Stores scheduled jobs in a MongoDB collection.
+ */
+class MongoScheduledJobRepo implements ScheduledJobRepo {
+	/**
+	 * Scheduled jobs collection.
+	 */
+	collection: Collection;
+
+	/**
+	 * Create a new MongoScheduledJobRepo.
+	 * @param collection Scheduled jobs collection.
+	 */
+	constructor(collection: Collection) {
+		this.collection = collection;
+	}
+
+	async get(id: string): Promise<ScheduledJobData|null> {
+		const objectId = toObjectId(id);
+		if (objectId === null) {
+			return null;
+		}
+
+		return fromMongoDoc(await this.collection.findOne({ _id: objectId }));
+	}
+
+	async save(data: ScheduledJobData): Promise<string> {
+		if (data._id !== undefined) {
+			const objectId = toObjectId(data._id);
+			if (objectId === null) {
+				throw new Error(`cannot update document with invalid ID ${data._id}`);
+			}
+
+			await this.collection.updateOne({ _id: objectId }, { $set: toMongoDoc(data) });
+			return data._id;
+		}
+
+		const res = await this.collection.insertOne(toMongoDoc(data));
+		return res.insertedId.toHexString();
+	}
+
+	async delete(id: string): Promise<boolean> {
+		const objectId = toObjectId(id);
+		if (objectId === null) {
+			return false;
+		}
+
+		const res = await this.collection.deleteOne({ _id: objectId });
+		return res.deletedCount > 0;
+	}
+
+	async list(): Promise<ScheduledJobData[]> {
+		const docs = await this.collection.find({}).sort({ run_time: 1 }).toArray();
+		return docs.map((doc) => fromMongoDoc(doc));
+	}
+
+	async listDue(time: number): Promise<ScheduledJobData[]> {
+		const docs = await this.collection.find({ run_time: { $lte: time } }).sort({ run_time: 1 }).toArray();
+		return docs.map((doc) => fromMongoDoc(doc));
+	}
+}
+
+/**
+ * Stores virtual machine locks in a MongoDB collection.
+ */
+class MongoVMLockRepo implements VMLockRepo {
+	/**
+	 * Virtual machine locks collection.
+	 */
+	collection: Collection;
+
+	/**
+	 * Create a new MongoVMLockRepo.
+	 * @param collection Virtual machine locks collection.
+	 */
+	constructor(collection: Collection) {
+		this.collection = collection;
+	}
+
+	async findActive(vmName: string, time: number): Promise<VMLockData|null> {
+		return fromMongoDoc(await this.collection.findOne({
+			vm_name: vmName,
+			$or: [
+				{ end_time: null },
+				{ end_time: { $gt: time } },
+			],
+		}));
+	}
+
+	async save(data: VMLockData): Promise<string> {
+		const res = await this.collection.findOneAndUpdate({ vm_name: data.vm_name }, { $set: toMongoDoc(data) }, { upsert: true, returnDocument: "after" });
+		return res.value._id.toHexString();
+	}
+
+	async delete(vmName: string): Promise<boolean> {
+		const res = await this.collection.deleteOne({ vm_name: vmName });
+		return res.deletedCount > 0;
+	}
+}
+
+/**
+ * Stores notification subscriptions in a MongoDB collection.
+ */
+class MongoNotifySubscriptionRepo implements NotifySubscriptionRepo {
+	/**
+	 * Notification subscriptions collection.
+	 */
+	collection: Collection;
+
+	/**
+	 * Create a new MongoNotifySubscriptionRepo.
+	 * @param collection Notification subscriptions collection.
+	 */
+	constructor(collection: Collection) {
+		this.collection = collection;
+	}
+
+	async listByVM(vmName: string): Promise<NotifySubscriptionData[]> {
+		const docs = await this.collection.find({ vm_name: vmName }).sort({ time: 1 }).toArray();
+		return docs.map((doc) => fromMongoDoc(doc));
+	}
+
+	async save(data: NotifySubscriptionData): Promise<string> {
+		const res = await this.collection.findOneAndUpdate({ vm_name: data.vm_name, user_id: data.user_id }, { $set: toMongoDoc(data) }, { upsert: true, returnDocument: "after" });
+		return res.value._id.toHexString();
+	}
+
+	async delete(vmName: string, userID: string): Promise<boolean> {
+		const res = await this.collection.deleteOne({ vm_name: vmName, user_id: userID });
+		return res.deletedCount > 0;
+	}
+
+	async deleteByVM(vmName: string): Promise<void> {
+		await this.collection.deleteMany({ vm_name: vmName });
+	}
+}
+
+/**
+ * Stores leases in a MongoDB collection.
+ */
+class MongoLeaseRepo implements LeaseRepo {
+	/**
+	 * Leases collection.
+	 */
+	collection: Collection;
+
+	/**
+	 * Create a new MongoLeaseRepo. createIndexes() must be called before leases are acquired.
+	 * @param collection Leases collection.
+	 */
+	constructor(collection: Collection) {
+		this.collection = collection;
+	}
+
+	/**
+	 * Create the unique index which stops two instances from inserting the same lease at once.
+	 * @returns Resolves when the index exists.
+	 */
+	async createIndexes(): Promise<void> {
+		await this.collection.createIndex({ name: 1 }, { unique: true });
+	}
+
+	async acquire(name: string, holder: string, time: number, expireTime: number): Promise<boolean> {
+		try {
+			// If another instance holds the lease the filter won't match, and the upsert fails on the unique name index
+			await this.collection.updateOne({
+				name,
+				$or: [
+					{ holder },
+					{ expire_time: { $lte: time } },
+				],
+			}, { $set: { name, holder, expire_time: expireTime } }, { upsert: true });
+			return true;
+		} catch (e) {
+			if (e.code === 11000) {
+				return false;
+			}
+
+			throw e;
+		}
+	}
+
+	async release(name: string, holder: string): Promise<void> {
+		await this.collection.deleteOne({ name, holder });
+	}
+}
+
+/**
+ * Stores the bot's data in MongoDB.
+ */
+class MongoBotDB implements BotDB {
+	client: MongoClient;
+	power_requests: MongoPowerRequestRepo;
+	boot_requests: MongoBootRequestRepo;
+	scheduled_jobs: MongoScheduledJobRepo;
+	vm_locks: MongoVMLockRepo;
+	notify_subscriptions: MongoNotifySubscriptionRepo;
+	leases: MongoLeaseRepo;
+
+	/**
+	 * Create a new MongoBotDB.
+	 * @param client Connected MongoDB client.
+	 * @param dbName Name of database in which to store bot data.
+	 */
+	constructor(client: MongoClient, dbName: string) {
+		this.client = client;
+
+		const db = client.db(dbName);
+		this.power_requests = new MongoPowerRequestRepo(db.collection("power_requests"));
+		this.boot_requests = new MongoBootRequestRepo(db.collection("boot_requests"));
+		this.scheduled_jobs = new MongoScheduledJobRepo(db.collection("scheduled_jobs"));
+		this.vm_locks = new MongoVMLockRepo(db.collection("vm_locks"));
+		this.notify_subscriptions = new MongoNotifySubscriptionRepo(db.collection("notify_subscriptions"));
+		this.leases = new MongoLeaseRepo(db.collection("leases"));
+	}
+
+	async ping(): Promise<void> {
+		await this.client.db().admin().ping();
+	}
+
+	async close(): Promise<void> {
+		await this.client.close();
+	}
+}
+
+/**
+ * Row in a SQLite table which stores data as JSON.
+ */
+interface SQLiteRow {
+	/**
+	 * Database ID.
+	 */
+	id: number;
+
+	/**
+	 * JSON encoded data, without a database ID.
+	 */
+	data: string;
+}
+
+/**
+ * Stores data as JSON in a SQLite table. Tables must have an id integer primary key column and a data text column.
+ */
+class SQLiteJSONTable<T extends { _id?: string }> {
+	/**
+	 * SQLite database.
+	 */
+	db: SQLiteDB;
+
+	/**
+	 * Name of the table.
+	 */
+	table: string;
+
+	/**
+	 * Create a new SQLiteJSONTable.
+	 * @param db SQLite database.
+	 * @param table Name of the table.
+	 */
+	constructor(db: SQLiteDB, table: string) {
+		this.db = db;
+		this.table = table;
+	}
+
+	/**
+	 * Convert a row into data.
+	 * @param row SQLite row.
+	 * @returns Data with a string database ID.
+	 */
+	fromRow(row: SQLiteRow): T {
+		return {
+			...JSON.parse(row.data),
+			_id: String(row.id),
+		};
+	}
+
+	/**
+	 * Convert data into JSON to store in the data column.
+	 * @param data Data.
+	 * @returns JSON without the database ID.
+	 */
+	toJSON(data: T): string {
+		const doc = { ...data };
+		delete doc._id;
+		return JSON.stringify(doc);
+	}
+
+	/**
+	 * Retrieve rows matching a condition. The json_extract() SQLite function can be used to match on data fields.
+	 * @param where SQL condition.
+	 * @param params Values for placeholders in where.
+	 * @param [suffix] SQL to put after the condition, like ORDER BY or LIMIT clauses.
+	 * @returns Matching data.
+	 */
+	find(where: string, params: unknown[], suffix?: string): T[] {
+		const rows = this.db.prepare(`SELECT id, data FROM ${this.table} WHERE ${where} ${suffix || ""}`).all(...params) as SQLiteRow[];
+		return rows.map((row) => this.fromRow(row));
+	}
+
+	/**
+	 * Retrieve the first row matching a condition.
+	 * @param where SQL condition.
+	 * @param params Values for placeholders in where.
+	 * @returns Matching data, or null if no rows matched.
+	 */
+	findOne(where: string, params: unknown[]): T|null {
+		const found = this.find(where, params, "LIMIT 1");
+		if (found.length === 0) {
+			return null;
+		}
+
+		return found[0];
+	}
+
+	/**
+	 * Count rows matching a condition.
+	 * @param where SQL condition.
+	 * @param params Values for placeholders in where.
+	 * @returns Number of matching rows.
+	 */
+	count(where: string, params: unknown[]): number {
+		const row = this.db.prepare(`SELECT COUNT(*) AS count FROM ${this.table} WHERE ${where}`).get(...params) as { count: number };
+		return row.count;
+	}
+}
+
+/**
+ * SQL condition which only matches a row if its data has not been saved since it was loaded. Takes one placeholder, the version the data had when it was loaded or null if it had none.
+ */
+const SQLITE_VERSION_MATCHES = "json_extract(data, '$.version') IS ?";
+
+/**
+ * Build a SQL placeholder list for an IN condition.
+ * @param values The values which will be bound to the placeholders.
+ * @returns Placeholders like "(?, ?, ?)".
+ */
+function sqlInList(values: unknown[]): string {
+	return `(${values.map(() => "?").join(", ")})`;
+}
+
+/**
+ * Build a SQL condition which matches power requests.
+ * @param filter Power request filter.
+ * @returns SQL condition and the values for its placeholders.
+ */
+function sqlitePowerRequestWhere(filter: PowerRequestFilter): { where: string, params: unknown[] } {
+	const conds = [ "1 = 1" ];
+	const params = [];
+	if (filter.vmName !== undefined) {
+		conds.push("json_extract(data, '$.vm_cfg.friendlyName') = ?");
+		params.push(filter.vmName);
+	}
+	if (filter.userID !== undefined) {
+		conds.push("json_extract(data, '$.requester.user_id') = ?");
+		params.push(filter.userID);
+	}
+
+	return { where: conds.join(" AND "), params };
+}
+
+/**
+ * Stores power requests in a SQLite table.
+ */
+class SQLitePowerRequestRepo implements PowerRequestRepo {
+	/**
+	 * Power requests table.
+	 */
+	table: SQLiteJSONTable<PowerRequestData>;
+
+	/**
+	 * Create a new SQLitePowerRequestRepo. Creates the table if it does not exist.
+	 * @param db SQLite database.
+	 */
+	constructor(db: SQLiteDB) {
+		db.exec(`CREATE TABLE IF NOT EXISTS power_requests (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			ctrl_msg_id TEXT NOT NULL UNIQUE,
+			data TEXT NOT NULL
+		)`);
+		this.table = new SQLiteJSONTable(db, "power_requests");
+	}
+
+	async get(id: string): Promise<PowerRequestData|null> {
+		return this.table.findOne("id = ?", [ Number(id) ]);
+	}
+
+	async getByCtrlMsg(ctrlMsgID: DiscordCtrlMsgID): Promise<PowerRequestData|null> {
+		return this.table.findOne("ctrl_msg_id = ?", [ JSON.stringify(ctrlMsgID) ]);
+	}
+
+	async save(data: PowerRequestData): Promise<string> {
+		const ctrlMsgID = JSON.stringify(data.ctrl_msg_id);
+		const json = this.table.toJSON(data);
+
+		if (data._id !== undefined) {
+			const version = data.version === undefined ? 1 : data.version + 1;
+			const res = this.table.db.prepare(`UPDATE power_requests SET ctrl_msg_id = ?, data = json_set(?, '$.version', ?)
+				WHERE id = ? AND ${SQLITE_VERSION_MATCHES}`).run(ctrlMsgID, json, version, Number(data._id), data.version === undefined ? null : data.version);
+			if (res.changes === 0) {
+				throw new SaveConflictError("power request", data._id);
+			}
+
+			data.version = version;
+			return data._id;
+		}
+
+		const row = this.table.db.prepare(`INSERT INTO power_requests (ctrl_msg_id, data) VALUES (?, json_set(?, '$.version', 1))
+			ON CONFLICT (ctrl_msg_id) DO UPDATE SET data = json_set(excluded.data, '$.version', COALESCE(json_extract(power_requests.data, '$.version'), 0) + 1)
+			RETURNING id, json_extract(data, '$.version') AS version`).get(ctrlMsgID, json) as { id: number, version: number };
+		data.version = row.version;
+		return String(row.id);
+	}
+
+	async listOngoing(): Promise<PowerRequestData[]> {
+		return this.table.find(`json_extract(data, '$.stage.current') IN ${sqlInList(POWER_REQUEST_ONGOING_STAGES)}`, POWER_REQUEST_ONGOING_STAGES);
+	}
+
+	async findOngoingByVM(vmName: string): Promise<PowerRequestData|null> {
+		return this.table.findOne(`json_extract(data, '$.vm_cfg.friendlyName') = ? AND json_extract(data, '$.stage.current') IN ${sqlInList(POWER_REQUEST_ONGOING_STAGES)}`, [ vmName, ...POWER_REQUEST_ONGOING_STAGES ]);
+	}
+
+	async countInProgressByVM(vmName: string): Promise<number> {
+		return this.table.count("json_extract(data, '$.vm_cfg.friendlyName') = ? AND json_extract(data, '$.stage.current') = 'in_progress'", [ vmName ]);
+	}
+
+	async listRecentSuccesses(vmName: string, startPower: VMPowerState, limit: number): Promise<PowerRequestData[]> {
+		return this.table.find(
+			"json_extract(data, '$.vm_cfg.friendlyName') = ? AND json_extract(data, '$.stage.current') = 'success' AND json_extract(data, '$.stage.in_progress.start_power') = ?",
+			[ vmName, startPower ],
+			`ORDER BY json_extract(data, '$.stage.success.time') DESC LIMIT ${Number(limit)}`
+		);
+	}
+
+	async countShutdownsSince(vmName: string, time: number): Promise<number> {
+		return this.table.count(
+			"json_extract(data, '$.vm_cfg.friendlyName') = ? AND json_extract(data, '$.target_power') != ? AND json_extract(data, '$.stage.current') = 'success' AND json_extract(data, '$.stage.success.time') > ?",
+			[ vmName, VMPowerState.Running, time ]
+		);
+	}
+
+	async listSuccessesBetween(vmName: string, start: number, end: number): Promise<PowerRequestData[]> {
+		return this.table.find(
+			"json_extract(data, '$.vm_cfg.friendlyName') = ? AND json_extract(data, '$.stage.current') = 'success' AND json_extract(data, '$.stage.success.time') >= ? AND json_extract(data, '$.stage.success.time') < ?",
+			[ vmName, start, end ],
+			"ORDER BY json_extract(data, '$.stage.success.time') ASC"
+		);
+	}
+
+	async findLastSuccessBefore(vmName: string, time: number): Promise<PowerRequestData|null> {
+		const found = this.table.find(
+			"json_extract(data, '$.vm_cfg.friendlyName') = ? AND json_extract(data, '$.stage.current') = 'success' AND json_extract(data, '$.stage.success.time') < ?",
+			[ vmName, time ],
+			"ORDER BY json_extract(data, '$.stage.success.time') DESC LIMIT 1"
+		);
+		if (found.length === 0) {
+			return null;
+		}
+
+		return found[0];
+	}
+
+	async listHistory(filter: PowerRequestFilter, offset: number, limit?: number): Promise<PowerRequestData[]> {
+		const { where, params } = sqlitePowerRequestWhere(filter);
+		const limitSQL = limit === undefined ? -1 : Number(limit);
+		return this.table.find(where, params, `ORDER BY id DESC LIMIT ${limitSQL} OFFSET ${Number(offset)}`);
+	}
+
+	async countHistory(filter: PowerRequestFilter): Promise<number> {
+		const { where, params } = sqlitePowerRequestWhere(filter);
+		return this.table.count(where, params);
+	}
+
+	async countByStage(): Promise<PowerRequestStageCount[]> {
+		return this.table.db.prepare(`SELECT
+			json_extract(data, '$.stage.current') AS stage,
+			json_extract(data, '$.target_power') AS target_power,
+			COUNT(*) AS count
+			FROM power_requests
+			GROUP BY stage, target_power`).all() as PowerRequestStageCount[];
+	}
+}
+
+/**
+ * Stores boot requests in a SQLite table.
+ */
+class SQLiteBootRequestRepo implements BootRequestRepo {
+	/**
+	 * Boot requests table.
+	 */
+	table: SQLiteJSONTable<BootRequestData>;
+
+	/**
+	 * Create a new SQLiteBootRequestRepo. Creates the table if it does not exist.
+	 * @param db SQLite database.
+	 */
+	constructor(db: SQLiteDB) {
+		db.exec(`CREATE TABLE IF NOT EXISTS boot_requests (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			data TEXT NOT NULL
+		)`);
+		this.table = new SQLiteJSONTable(db, "boot_requests");
+	}
+
+	async get(id: string): Promise<BootRequestData|null> {
+		return this.table.findOne("id = ?", [ Number(id) ]);
+	}
+
+	async save(data: BootRequestData): Promise<string> {
+		const json = this.table.toJSON(data);
+
+		if (data._id !== undefined) {
+			const version = data.version === undefined ? 1 : data.version + 1;
+			const res = this.table.db.prepare(`UPDATE boot_requests SET data = json_set(?, '$.version', ?)
+				WHERE id = ? AND ${SQLITE_VERSION_MATCHES}`).run(json, version, Number(data._id), data.version === undefined ? null : data.version);
+			if (res.changes === 0) {
+				throw new SaveConflictError("boot request", data._id);
+			}
+
+			data.version = version;
+			return data._id;
+		}
+
+		const res = this.table.db.prepare("INSERT INTO boot_requests (data) VALUES (json_set(?, '$.version', 1))").run(json);
+		data.version = 1;
+		return String(res.lastInsertRowid);
+	}
+
+	async listOngoing(): Promise<BootRequestData[]> {
+		return this.table.find(`json_extract(data, '$.stage.current') IN ${sqlInList(BOOT_REQUEST_ONGOING_STAGES)}`, BOOT_REQUEST_ONGOING_STAGES);
+	}
+
+	async findOngoingByVM(vmName: string): Promise<BootRequestData|null> {
+		return this.table.findOne(`json_extract(data, '$.vm_cfg.friendlyName') = ? AND json_extract(data, '$.stage.current') IN ${sqlInList(BOOT_REQUEST_ONGOING_STAGES)}`, [ vmName, ...BOOT_REQUEST_ONGOING_STAGES ]);
+	}
+}
+
+/**
+ * Stores scheduled jobs in a SQLite table.
+ */
+class SQLiteScheduledJobRepo implements ScheduledJobRepo {
+	/**
+	 * Scheduled jobs table.
+	 */
+	table: SQLiteJSONTable<ScheduledJobData>;
+
+	/**
+	 * Create a new SQLiteScheduledJobRepo. Creates the table if it does not exist.
+	 * @param db SQLite database.
+	 */
+	constructor(db: SQLiteDB) {
+		db.exec(`CREATE TABLE IF NOT EXISTS scheduled_jobs (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			data TEXT NOT NULL
+		)`);
+		this.table = new SQLiteJSONTable(db, "scheduled_jobs");
+	}
+
+	async get(id: string): Promise<ScheduledJobData|null> {
+		return this.table.findOne("id = ?", [ Number(id) ]);
+	}
+
+	async save(data: ScheduledJobData): Promise<string> {
+		const json = this.table.toJSON(data);
+
+		if (data._id !== undefined) {
+			this.table.db.prepare("UPDATE scheduled_jobs SET data = ? WHERE id = ?").run(json, Number(data._id));
+			return data._id;
+		}
+
+		const res = this.table.db.prepare("INSERT INTO scheduled_jobs (data) VALUES (?)").run(json);
+		return String(res.lastInsertRowid);
+	}
+
+	async delete(id: string): Promise<boolean> {
+		const res = this.table.db.prepare("DELETE FROM scheduled_jobs WHERE id = ?").run(Number(id));
+		return res.changes > 0;
+	}
+
+	async list(): Promise<ScheduledJobData[]> {
+		return this.table.find("1 = 1", [], "ORDER BY json_extract(data, '$.run_time') ASC");
+	}
+
+	async listDue(time: number): Promise<ScheduledJobData[]> {
+		return this.table.find("json_extract(data, '$.run_time') <= ?", [ time ], "ORDER BY json_extract(data, '$.run_time') ASC");
+	}
+}
+
+/**
+ * Stores virtual machine locks in a SQLite table.
+ */
+class SQLiteVMLockRepo implements VMLockRepo {
+	/**
+	 * Virtual machine locks table.
+	 */
+	table: SQLiteJSONTable<VMLockData>;
+
+	/**
+	 * Create a new SQLiteVMLockRepo. Creates the table if it does not exist.
+	 * @param db SQLite database.
+	 */
+	constructor(db: SQLiteDB) {
+		db.exec(`CREATE TABLE IF NOT EXISTS vm_locks (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			vm_name TEXT NOT NULL UNIQUE,
+			data TEXT NOT NULL
+		)`);
+		this.table = new SQLiteJSONTable(db, "vm_locks");
+	}
+
+	async findActive(vmName: string, time: number): Promise<VMLockData|null> {
+		return this.table.findOne("vm_name = ? AND (json_extract(data, '$.end_time') IS NULL OR json_extract(data, '$.end_time') > ?)", [ vmName, time ]);
+	}
+
+	async save(data: VMLockData): Promise<string> {
+		const row = this.table.db.prepare(`INSERT INTO vm_locks (vm_name, data) VALUES (?, ?)
+			ON CONFLICT (vm_name) DO UPDATE SET data = excluded.data
+			RETURNING id`).get(data.vm_name, this.table.toJSON(data)) as { id: number };
+		return String(row.id);
+	}
+
+	async delete(vmName: string): Promise<boolean> {
+		const res = this.table.db.prepare("DELETE FROM vm_locks WHERE vm_name = ?").run(vmName);
+		return res.changes > 0;
+	}
+}
+
+/**
+ * Stores notification subscriptions in a SQLite table.
+ */
+class SQLiteNotifySubscriptionRepo implements NotifySubscriptionRepo {
+	/**
+	 * Notification subscriptions table.
+	 */
+	table: SQLiteJSONTable<NotifySubscriptionData>;
+
+	/**
+	 * Create a new SQLiteNotifySubscriptionRepo. Creates the table if it does not exist.
+	 * @param db SQLite database.
+	 */
+	constructor(db: SQLiteDB) {
+		db.exec(`CREATE TABLE IF NOT EXISTS notify_subscriptions (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			vm_name TEXT NOT NULL,
+			user_id TEXT NOT NULL,
+			data TEXT NOT NULL,
+			UNIQUE (vm_name, user_id)
+		)`);
+		this.table = new SQLiteJSONTable(db, "notify_subscriptions");
+	}
+
+	async listByVM(vmName: string): Promise<NotifySubscriptionData[]> {
+		return this.table.find("vm_name = ?", [ vmName ], "ORDER BY json_extract(data, '$.time') ASC");
+	}
+
+	async save(data: NotifySubscriptionData): Promise<string> {
+		const row = this.table.db.prepare(`INSERT INTO notify_subscriptions (vm_name, user_id, data) VALUES (?, ?, ?)
+			ON CONFLICT (vm_name, user_id) DO UPDATE SET data = excluded.data
+			RETURNING id`).get(data.vm_name, data.user_id, this.table.toJSON(data)) as { id: number };
+		return String(row.id);
+	}
+
+	async delete(vmName: string, userID: string): Promise<boolean> {
+		const res = this.table.db.prepare("DELETE FROM notify_subscriptions WHERE vm_name = ? AND user_id = ?").run(vmName, userID);
+		return res.changes > 0;
+	}
+
+	async deleteByVM(vmName: string): Promise<void> {
+		this.table.db.prepare("DELETE FROM notify_subscriptions WHERE vm_name = ?").run(vmName);
+	}
+}
+
+/**
+ * Stores leases in a SQLite table.
+ */
+class SQLiteLeaseRepo implements LeaseRepo {
+	/**
+	 * Leases table.
+	 */
+	table: SQLiteJSONTable<LeaseData>;
+
+	/**
+	 * Create a new SQLiteLeaseRepo. Creates the table if it does not exist.
+	 * @param db SQLite database.
+	 */
+	constructor(db: SQLiteDB) {
+		db.exec(`CREATE TABLE IF NOT EXISTS leases (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			name TEXT NOT NULL UNIQUE,
+			data TEXT NOT NULL
+		)`);
+		this.table = new SQLiteJSONTable(db, "leases");
+	}
+
+	async acquire(name: string, holder: string, time: number, expireTime: number): Promise<boolean> {
+		const res = this.table.db.prepare(`INSERT INTO leases (name, data) VALUES (?, ?)
+			ON CONFLICT (name) DO UPDATE SET data = excluded.data
+			WHERE json_extract(leases.data, '$.holder') = ? OR json_extract(leases.data, '$.expire_time') <= ?`)
+			.run(name, this.table.toJSON({ name, holder, expire_time: expireTime }), holder, time);
+		return res.changes > 0;
+	}
+
+	async release(name: string, holder: string): Promise<void> {
+		this.table.db.prepare("DELETE FROM leases WHERE name = ? AND json_extract(data, '$.holder') = ?").run(name, holder);
+	}
+}
+
+/**
+ * Stores the bot's data in a single SQLite database file.
+ */
+class SQLiteBotDB implements BotDB {
+	db: SQLiteDB;
+	power_requests: SQLitePowerRequestRepo;
+	boot_requests: SQLiteBootRequestRepo;
+	scheduled_jobs: SQLiteScheduledJobRepo;
+	vm_locks: SQLiteVMLockRepo;
+	notify_subscriptions: SQLiteNotifySubscriptionRepo;
+	leases: SQLiteLeaseRepo;
+
+	/**
+	 * Open a SQLite database file, creating it and its tables if they do not exist.
+	 * @param file Path to the database file.
+	 */
+	constructor(file: string) {
+		this.db = new SQLiteDatabase(file);
+		this.db.pragma("journal_mode = WAL");
+		
+		this.power_requests = new SQLitePowerRequestRepo(this.db);
+		this.boot_requests = new SQLiteBootRequestRepo(this.db);
+		this.scheduled_jobs = new SQLiteScheduledJobRepo(this.db);
+		this.vm_locks = new SQLiteVMLockRepo(this.db);
+		this.notify_subscriptions = new SQLiteNotifySubscriptionRepo(this.db);
+		this.leases = new SQLiteLeaseRepo(this.db);
+	}
+
+	async ping(): Promise<void> {
+		this.db.prepare("SELECT 1").get();
+	}
+
+	async close(): Promise<void> {
+		this.db.close();
+	}
+}
+
+/**
+ * Connect to the database selected in the configuration.
+ * @param cfg Bot configuration.
+ * @param log Logger.
+ * @returns Resolves with the connected database.
+ */
+export async function connectBotDB(cfg: BotConfig, log: winston.Logger): Promise<BotDB> {
+	switch (cfg.storage) {
+		case "mongodb":
+			log.info("trying to connect to mongodb");
+			const client = new MongoClient(cfg.mongodb.connectionURI);
+			await client.connect();
+			log.info("connected to mongodb");
+
+			const db = new MongoBotDB(client, cfg.mongodb.dbName);
+			await db.leases.createIndexes();
+
+			return db;
+		case "sqlite":
+			log.info(`opening sqlite database ${cfg.sqlite.file}`);
+			return new SQLiteBotDB(cfg.sqlite.file);
+	}
+}
@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+
+import { CBotConfig, configIssues, vmCfgByFriendlyName } from "../config";
+
+/**
+ * Build a minimal configuration which is valid.
+ * @returns The configuration, before validation.
+ */
+function validConfig(): z.input<typeof CBotConfig> {
+	return {
+		storage: "sqlite",
+		sqlite: {
+			file: "bot.sqlite",
+		},
+		discord: {
+			applicationID: "123456789012345678",
+			botToken: "token",
+		},
+		vms: [
+			{
+				provider: "simulator",
+				friendlyName: "minecraft",
+			},
+		],
+	};
+}
+
+/**
+ * Validate a configuration.
+ * @param cfg The configuration.
+ * @returns The problems found, empty if the configuration is valid.
+ */
+async function issues(cfg: z.input<typeof CBotConfig>): Promise<string[]> {
+	const res = await CBotConfig.safeParseAsync(cfg);
+	if (res.success === true) {
+		return [];
+	}
+
+	return configIssues(res.error);
+}
+
+test("a minimal configuration is valid and gets defaults", async () => {
+	const cfg = await CBotConfig.parseAsync(validConfig());
+
+	assert.equal(cfg.vms[0].sessionLengthMinutes, 240);
+	assert.deepEqual(cfg.vms[0].voiceChannelIDs, []);
+	assert.deepEqual(cfg.vms[0].quietHours, []);
+	assert.equal(cfg.cost.currencySymbol, "$");
+	assert.equal(cfg.http, undefined);
+});
+
+test("the configuration for the chosen storage is required", async () => {
+	const cfg = validConfig();
+	cfg.storage = "mongodb";
+
+	assert.deepEqual(await issues(cfg), [ "$.mongodb: required when storage is \"mongodb\"" ]);
+});
+
+test("azure options are required by azure virtual machines", async () => {
+	const cfg = validConfig();
+	cfg.vms[0].provider = "azure";
+
+	assert.deepEqual((await issues(cfg)).sort(), [
+		"$.azure: required when any virtual machines use the \"azure\" provider",
+		"$.vms[0].azureName: required when provider is \"azure\"",
+		"$.vms[0].resourceGroup: required when provider is \"azure\"",
+	]);
+});
+
+test("wakeOnLAN options are required by wake_on_lan virtual machines", async () => {
+	const cfg = validConfig();
+	cfg.vms[0].provider = "wake_on_lan";
+
+	assert.deepEqual(await issues(cfg), [ "$.vms[0].wakeOnLAN: required when provider is \"wake_on_lan\"" ]);
+});
+
+test("virtual machine friendly names must be unique", async () => {
+	const cfg = validConfig();
+	cfg.vms.push({ provider: "simulator", friendlyName: "minecraft" });
+
+	assert.deepEqual(await issues(cfg), [ "$.vms[1].friendlyName: must be unique, \"minecraft\" is already used by vms[0]" ]);
+});
+
+test("Discord IDs and quiet hours times are checked", async () => {
+	const cfg = validConfig();
+	cfg.discord.applicationID = "abc";
+	cfg.vms[0].quietHours = [ { start: "24:00", end: "07:00" } ];
+
+	assert.deepEqual((await issues(cfg)).sort(), [
+		"$.discord.applicationID: must be a Discord ID, which is a number like 123456789012345678",
+		"$.vms[0].quietHours[0].start: must be a 24 hour HH:mm time",
+	]);
+});
+
+test("secrets can be read from environment variables", async () => {
+	const cfg = validConfig();
+	cfg.discord.botToken = { env: "DISCORD_AZURE_BOOT_TEST_TOKEN" };
+
+	assert.deepEqual(await issues(cfg), [ "$.discord.botToken: environment variable DISCORD_AZURE_BOOT_TEST_TOKEN is not set" ]);
+
+	process.env.DISCORD_AZURE_BOOT_TEST_TOKEN = "from env";
+	try {
+		const parsed = await CBotConfig.parseAsync(cfg);
+		assert.equal(parsed.discord.botToken, "from env");
+	} finally {
+		delete process.env.DISCORD_AZURE_BOOT_TEST_TOKEN;
+	}
+});
+
+test("vmCfgByFriendlyName finds virtual machines by name", async () => {
+	const cfg = await CBotConfig.parseAsync(validConfig());
+
+	assert.equal(vmCfgByFriendlyName(cfg, "minecraft").friendlyName, "minecraft");
+	assert.throws(() => vmCfgByFriendlyName(cfg, "valheim"));
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { runningIntervals } from "../cost";
+import { VMPowerState } from "../compute";
+import { PowerRequestData } from "../storage";
+
+/**
+ * Build a power request which succeeded.
+ * @param targetPower The power state the power request reached.
+ * @param time Unix time in milliseconds when it succeeded.
+ * @returns The power request.
+ */
+function succeeded(targetPower: VMPowerState, time: number): PowerRequestData {
+	return {
+		target_power: targetPower,
+		stage: {
+			current: "success",
+			success: { time },
+		},
+	} as PowerRequestData;
+}
+
+test("runningIntervals pairs starts with the shutdowns after them", () => {
+	const intervals = runningIntervals(null, [
+		succeeded(VMPowerState.Running, 100),
+		succeeded(VMPowerState.Deallocated, 200),
+		succeeded(VMPowerState.Running, 300),
+		succeeded(VMPowerState.Stopped, 450),
+	], 0, 1000);
+
+	assert.deepEqual(intervals, [
+		{ start: 100, end: 200 },
+		{ start: 300, end: 450 },
+	]);
+});
+
+test("runningIntervals cuts off a server which is still running at end", () => {
+	const intervals = runningIntervals(null, [
+		succeeded(VMPowerState.Running, 100),
+		succeeded(VMPowerState.Deallocated, 200),
+		succeeded(VMPowerState.Running, 800),
+	], 0, 1000);
+
+	assert.deepEqual(intervals, [
+		{ start: 100, end: 200 },
+		{ start: 800, end: 1000 },
+	]);
+});
+
+test("runningIntervals skips a start at end", () => {
+	assert.deepEqual(runningIntervals(null, [ succeeded(VMPowerState.Running, 1000) ], 0, 1000), []);
+});
+
+test("runningIntervals starts at start if the server was already running", () => {
+	const intervals = runningIntervals(succeeded(VMPowerState.Running, -50), [
+		succeeded(VMPowerState.Deallocated, 200),
+	], 0, 1000);
+
+	assert.deepEqual(intervals, [ { start: 0, end: 200 } ]);
+	assert.deepEqual(runningIntervals(succeeded(VMPowerState.Running, -50), [], 0, 1000), [ { start: 0, end: 1000 } ]);
+	assert.deepEqual(runningIntervals(succeeded(VMPowerState.Deallocated, -50), [], 0, 1000), []);
+});
+
+test("runningIntervals ignores repeated starts and shutdowns", () => {
+	const intervals = runningIntervals(null, [
+		succeeded(VMPowerState.Deallocated, 50),
+		succeeded(VMPowerState.Running, 100),
+		succeeded(VMPowerState.Running, 150),
+		succeeded(VMPowerState.Deallocated, 200),
+		succeeded(VMPowerState.Deallocated, 250),
+	], 0, 1000);
+
+	assert.deepEqual(intervals, [ { start: 100, end: 200 } ]);
+});
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { classifyPowerError, ComputeProviderError, PowerErrorKind } from "../errors";
+
+/**
+ * Build an error like the ones thrown by Azure's SDK.
+ * @param code Azure error code.
+ * @param statusCode HTTP status code.
+ * @param message Error message.
+ * @returns The error.
+ */
+function azureError(code: string, statusCode: number, message: string = "request failed"): Error {
+	return Object.assign(new Error(message), { name: "RestError", code, statusCode });
+}
+
+test("classifyPowerError classifies Azure error codes", () => {
+	assert.equal(classifyPowerError(azureError("ResourceNotFound", 404)).kind, PowerErrorKind.VMNotFound);
+	assert.equal(classifyPowerError(azureError("AuthorizationFailed", 403)).kind, PowerErrorKind.PermissionDenied);
+	assert.equal(classifyPowerError(azureError("QuotaExceeded", 409)).kind, PowerErrorKind.QuotaExceeded);
+	assert.equal(classifyPowerError(azureError("ZonalAllocationFailed", 409)).kind, PowerErrorKind.AllocationFailed);
+});
+
+test("classifyPowerError only treats OperationNotAllowed as a quota error if the message says so", () => {
+	assert.equal(classifyPowerError(azureError("OperationNotAllowed", 409, "Operation results in exceeding quota limits of Core.")).kind, PowerErrorKind.QuotaExceeded);
+	assert.equal(classifyPowerError(azureError("OperationNotAllowed", 409, "Approved standardDSv3Family Cores limit exceeded.")).kind, PowerErrorKind.QuotaExceeded);
+	assert.equal(classifyPowerError(azureError("OperationNotAllowed", 409, "Operation 'start' is not allowed on VM 'game' since the VM is being deallocated.")).kind, PowerErrorKind.Transient);
+});
+
+test("classifyPowerError treats throttling, server, and network errors as transient", () => {
+	assert.equal(classifyPowerError(azureError("TooManyRequests", 429)).kind, PowerErrorKind.Transient);
+	assert.equal(classifyPowerError(azureError("InternalServerError", 500)).kind, PowerErrorKind.Transient);
+	assert.equal(classifyPowerError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })).kind, PowerErrorKind.Transient);
+});
+
+test("classifyPowerError falls back to status codes and messages", () => {
+	assert.equal(classifyPowerError(azureError("SomethingNew", 401)).kind, PowerErrorKind.PermissionDenied);
+	assert.equal(classifyPowerError(azureError("SomethingNew", 404)).kind, PowerErrorKind.VMNotFound);
+	assert.equal(classifyPowerError(new Error("All configured authentication methods failed")).kind, PowerErrorKind.PermissionDenied);
+	assert.equal(classifyPowerError(new Error("something went wrong")).kind, PowerErrorKind.Unknown);
+});
+
+test("classifyPowerError records error details", () => {
+	const record = classifyPowerError(azureError("ResourceNotFound", 404, "not here"));
+
+	assert.equal(record.name, "RestError");
+	assert.equal(record.message, "not here");
+	assert.equal(record.code, "ResourceNotFound");
+	assert.equal(record.status_code, 404);
+	assert.equal(typeof record.stack, "string");
+});
+
+test("classifyPowerError handles values which aren't errors", () => {
+	const record = classifyPowerError("oops");
+
+	assert.equal(record.kind, PowerErrorKind.Unknown);
+	assert.equal(record.message, "oops");
+	assert.equal(record.code, null);
+	assert.equal(record.status_code, null);
+	assert.equal(record.stack, null);
+});
+
+test("classifyPowerError classifies the cause of a ComputeProviderError", () => {
+	const record = classifyPowerError(new ComputeProviderError(azureError("AuthorizationFailed", 403)));
+
+	assert.equal(record.kind, PowerErrorKind.PermissionDenied);
+	assert.equal(record.code, "AuthorizationFailed");
+});
@@ -0,0 +1,138 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import net from "net";
+import dgram from "dgram";
+
+import { probeGameReady, minecraftPing, sourceQuery } from "../game";
+
+/**
+ * Start a TCP server on a random local port.
+ * @param onConnection Handles each connection.
+ * @returns Resolves with the server once it is listening.
+ */
+function listenTCP(onConnection: (socket: net.Socket) => void): Promise<net.Server> {
+	return new Promise((resolve) => {
+		const server = net.createServer(onConnection);
+		server.listen(0, "127.0.0.1", () => resolve(server));
+	});
+}
+
+/**
+ * Find a local TCP port which nothing is listening on.
+ * @returns Resolves with the port.
+ */
+async function closedPort(): Promise<number> {
+	const server = await listenTCP(() => {});
+	const port = (server.address() as net.AddressInfo).port;
+	await new Promise((resolve) => server.close(resolve));
+	return port;
+}
+
+/**
+ * Encode a number as a Minecraft protocol VarInt.
+ * @param value The number to encode.
+ * @returns The encoded bytes.
+ */
+function mcVarInt(value: number): Buffer {
+	const bytes = [];
+	do {
+		bytes.push((value & 0x7f) | (value > 0x7f ? 0x80 : 0));
+		value >>>= 7;
+	} while (value !== 0);
+
+	return Buffer.from(bytes);
+}
+
+/**
+ * Start a UDP server on a random local port which answers A2S_INFO requests like a Source server, sending a challenge first.
+ * @param players Number of players, including bots.
+ * @param bots Number of bots.
+ * @returns Resolves with the server once it is listening.
+ */
+function listenSource(players: number, bots: number): Promise<dgram.Socket> {
+	return new Promise((resolve) => {
+		const server = dgram.createSocket("udp4");
+		const challenge = Buffer.from([ 1, 2, 3, 4 ]);
+
+		server.on("message", (msg, rinfo) => {
+			const header = Buffer.from([ 0xff, 0xff, 0xff, 0xff ]);
+			if (msg.slice(-4).equals(challenge) === false) {
+				server.send(Buffer.concat([ header, Buffer.from([ 0x41 ]), challenge ]), rinfo.port, rinfo.address);
+				return;
+			}
+
+			server.send(Buffer.concat([
+				header,
+				Buffer.from([ 0x49, 17 ]),
+				Buffer.from("Server\0de_dust2\0csgo\0Counter-Strike\0", "ascii"),
+				Buffer.from([ 0xda, 0x02, players, 16, bots ]),
+			]), rinfo.port, rinfo.address);
+		});
+		server.bind(0, "127.0.0.1", () => resolve(server));
+	});
+}
+
+test("minecraftPing reads the player count from a status response split over packets", async () => {
+	const status = Buffer.from(JSON.stringify({
+		version: { name: "1.20.4", protocol: 765 },
+		players: { online: 3, max: 20 },
+		description: { text: "A Minecraft Server ".repeat(10) },
+	}), "utf8");
+	const body = Buffer.concat([ mcVarInt(0x00), mcVarInt(status.length), status ]);
+	const packet = Buffer.concat([ mcVarInt(body.length), body ]);
+
+	const server = await listenTCP((socket) => {
+		socket.once("data", () => {
+			socket.write(packet.slice(0, 10));
+			setTimeout(() => socket.end(packet.slice(10)), 10);
+		});
+	});
+	const port = (server.address() as net.AddressInfo).port;
+
+	try {
+		assert.deepEqual(await minecraftPing("127.0.0.1", port, 1000), { players: 3, maxPlayers: 20 });
+	} finally {
+		server.close();
+	}
+});
+
+test("minecraftPing fails if the server does not respond", async () => {
+	const server = await listenTCP(() => {});
+	const port = (server.address() as net.AddressInfo).port;
+
+	try {
+		await assert.rejects(minecraftPing("127.0.0.1", port, 100), /did not respond within 100ms/);
+	} finally {
+		server.close();
+	}
+});
+
+test("sourceQuery answers challenges and does not count bots as players", async () => {
+	const server = await listenSource(5, 2);
+	const port = server.address().port;
+
+	try {
+		assert.deepEqual(await sourceQuery("127.0.0.1", port, 1000), { players: 3, maxPlayers: 16 });
+	} finally {
+		server.close();
+	}
+});
+
+test("probeGameReady's tcp probe is ready once the port accepts connections", async () => {
+	const server = await listenTCP((socket) => socket.destroy());
+	const port = (server.address() as net.AddressInfo).port;
+
+	try {
+		assert.equal(await probeGameReady({ type: "tcp", host: "127.0.0.1", port, timeoutMs: 1000 }), true);
+	} finally {
+		server.close();
+	}
+
+	assert.equal(await probeGameReady({ type: "tcp", host: "127.0.0.1", port: await closedPort(), timeoutMs: 1000 }), false);
+});
+
+test("probeGameReady's game query probes are not ready while the query fails", async () => {
+	const port = await closedPort();
+
+	assert.equal(await probeGameReady({ type: "minecraft", host: "127.0.0.1", port, timeoutMs: 1000 }), false);
+});
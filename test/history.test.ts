@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { historyCSV, PowerRequestHistoryRow } from "../history";
+
+const HEADER = "id,server,action,outcome,requester_user_id,guild_id,channel_id,start_time,end_time,duration_ms,error";
+
+test("historyCSV writes a header row even without rows", () => {
+	assert.equal(historyCSV([]), `${HEADER}\n`);
+});
+
+test("historyCSV writes times as ISO 8601 and leaves missing values empty", () => {
+	const rows: PowerRequestHistoryRow[] = [
+		{
+			id: "1",
+			server: "minecraft",
+			action: "boot",
+			outcome: "success",
+			requester_user_id: "123456789012345678",
+			guild_id: "223456789012345678",
+			channel_id: "323456789012345678",
+			start_time: Date.UTC(2024, 0, 10, 22, 30),
+			end_time: Date.UTC(2024, 0, 10, 22, 32),
+			duration_ms: 120000,
+		},
+		{
+			id: "2",
+			server: "minecraft",
+			action: "shutdown",
+			outcome: "in_progress",
+			requester_user_id: null,
+		},
+	];
+
+	assert.equal(historyCSV(rows), [
+		HEADER,
+		"1,minecraft,boot,success,123456789012345678,223456789012345678,323456789012345678,2024-01-10T22:30:00.000Z,2024-01-10T22:32:00.000Z,120000,",
+		"2,minecraft,shutdown,in_progress,,,,,,,",
+		"",
+	].join("\n"));
+});
+
+test("historyCSV quotes fields with commas, quotes, and new lines", () => {
+	const rows: PowerRequestHistoryRow[] = [
+		{
+			id: "3",
+			server: "valheim, \"the\" server",
+			action: "boot",
+			outcome: "error",
+			error: "the server could not start\ntry again",
+		},
+	];
+
+	assert.equal(historyCSV(rows), [
+		HEADER,
+		"3,\"valheim, \"\"the\"\" server\",boot,error,,,,,,,\"the server could not start\ntry again\"",
+		"",
+	].join("\n"));
+});
@@ -0,0 +1,1253 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import winston from "winston";
+import { ButtonInteraction, Client as DiscordClient, CommandInteraction, GuildMember, MessageButton, MessageEmbedOptions } from "discord.js";
+
+import { Bot, BootRequest, PowerRequest, DiscordCtrlMsg, DiscordInteraction, DiscordHTTPError } from "../index";
+import { CBotConfig, VMConfig } from "../config";
+import { SimulatorComputeProvider, VMPowerState } from "../compute";
+import { PowerErrorKind } from "../errors";
+import { connectBotDB, BootRequestStage, DiscordChannelLocation, DiscordCtrlInteractionID, DiscordCtrlTxtMsgID, DISCORD_CTRL_INTERACTION, DISCORD_CTRL_TXT_MSG } from "../storage";
+
+/**
+ * Discord channel the test bot sends messages in.
+ */
+const LOCATION: DiscordChannelLocation = {
+	guildID: "123456789012345678",
+	channelID: "223456789012345678",
+};
+
+/**
+ * ID of the Discord user who makes requests in tests.
+ */
+const USER_ID = "323456789012345678";
+
+/**
+ * A message sent to the fake Discord channel.
+ */
+interface FakeMessage {
+	/**
+	 * Discord message ID.
+	 */
+	id: string;
+
+	/**
+	 * Text content.
+	 */
+	content?: string;
+
+	/**
+	 * Embeds, the last edit's if the message was edited.
+	 */
+	embeds: MessageEmbedOptions[];
+
+	/**
+	 * ID of the user the message was sent to, if it is a direct message.
+	 */
+	dmUserID?: string;
+}
+
+/**
+ * Build a Discord client with one text channel at LOCATION, which stores sent messages, including direct messages, instead of sending them.
+ * @param messages Sent messages are added to this map, keyed by message ID.
+ * @returns The fake client.
+ */
+function fakeDiscord(messages: Map<string, FakeMessage>): DiscordClient {
+	const channel = {
+		isText: () => true,
+		send: async (opts: { content?: string, embeds: MessageEmbedOptions[] }) => {
+			const msg = { id: String(messages.size + 1), content: opts.content, embeds: opts.embeds };
+			messages.set(msg.id, msg);
+			return msg;
+		},
+		messages: {
+			fetch: async (id: string) => {
+				return {
+					edit: async (opts: { content?: string, embeds?: MessageEmbedOptions[] }) => {
+						const msg = messages.get(id);
+						if (opts.content !== undefined) {
+							msg.content = opts.content;
+						}
+						if (opts.embeds !== undefined) {
+							msg.embeds = opts.embeds;
+						}
+					},
+				};
+			},
+		},
+	};
+	const guild = {
+		channels: {
+			cache: new Map([ [ LOCATION.channelID, channel ] ]),
+		},
+	};
+
+	return {
+		isReady: () => true,
+		guilds: {
+			cache: new Map([ [ LOCATION.guildID, guild ] ]),
+		},
+		users: {
+			fetch: async (userID: string) => {
+				return {
+					send: async (opts: { embeds: MessageEmbedOptions[] }) => {
+						const msg = { id: String(messages.size + 1), embeds: opts.embeds, dmUserID: userID };
+						messages.set(msg.id, msg);
+						return msg;
+					},
+				};
+			},
+		},
+	} as unknown as DiscordClient;
+}
+
+/**
+ * Build a Discord guild member.
+ * @param roleIDs IDs of the roles the member has.
+ * @returns The fake member.
+ */
+function fakeMember(roleIDs: string[]): GuildMember {
+	return {
+		roles: {
+			cache: new Map(roleIDs.map((id) => [ id, {} ])),
+		},
+	} as unknown as GuildMember;
+}
+
+/**
+ * A call to a fake Discord interaction's reply methods.
+ */
+interface FakeReply {
+	/**
+	 * Name of the method which was called.
+	 */
+	method: "reply"|"deferReply"|"editReply";
+
+	/**
+	 * Options the method was called with.
+	 */
+	opts?: { content?: string, ephemeral?: boolean };
+}
+
+/**
+ * Build a Discord interaction for a button click by USER_ID in LOCATION.
+ * @param customId Custom ID of the button.
+ * @param member The guild member who clicked the button.
+ * @param replies Calls to the interaction's reply methods are added to this array.
+ * @returns The fake interaction.
+ */
+function fakeButton(customId: string, member: GuildMember, replies: FakeReply[]): ButtonInteraction {
+	return {
+		id: "723456789012345678",
+		token: "token",
+		customId,
+		member,
+		user: {
+			id: USER_ID,
+		},
+		guildId: LOCATION.guildID,
+		channelId: LOCATION.channelID,
+		createdTimestamp: Date.now(),
+		reply: async (opts) => replies.push({ method: "reply", opts }),
+		deferReply: async (opts) => replies.push({ method: "deferReply", opts }),
+		editReply: async (opts) => replies.push({ method: "editReply", opts }),
+	} as unknown as ButtonInteraction;
+}
+
+/**
+ * Build a Discord interaction for a slash command run by USER_ID in LOCATION.
+ * @param commandName Name of the command.
+ * @param options Values of the command's options, keyed by option name.
+ * @param replies Calls to the interaction's reply methods are added to this array.
+ * @returns The fake interaction.
+ */
+function fakeCommand(commandName: string, options: { [name: string]: string|boolean|number }, replies: FakeReply[]): CommandInteraction {
+	const option = (name: string) => options[name] === undefined ? null : options[name];
+
+	return {
+		...fakeButton("", fakeMember([]), replies),
+		isCommand: () => true,
+		isButton: () => false,
+		commandName,
+		options: {
+			getString: option,
+			getBoolean: option,
+			getInteger: option,
+		},
+	} as unknown as CommandInteraction;
+}
+
+/**
+ * Simulator which fails power state checks with queued errors, like a cloud provider having problems.
+ */
+class FailingComputeProvider extends SimulatorComputeProvider {
+	/**
+	 * Errors thrown by the next calls to powerState(), in order.
+	 */
+	errors: Error[] = [];
+
+	/**
+	 * Number of calls to powerState().
+	 */
+	powerStateCalls = 0;
+
+	async powerState(vmCfg: VMConfig): Promise<VMPowerState|undefined> {
+		this.powerStateCalls++;
+		if (this.errors.length > 0) {
+			throw this.errors.shift();
+		}
+
+		return await super.powerState(vmCfg);
+	}
+}
+
+/**
+ * Build an error like the ones thrown by Azure's SDK.
+ * @param code Azure error code.
+ * @param statusCode HTTP status code.
+ * @returns The error.
+ */
+function azureError(code: string, statusCode: number): Error {
+	return Object.assign(new Error("request failed"), { name: "RestError", code, statusCode });
+}
+
+/**
+ * Add a message to the fake Discord channel, to use as a control message.
+ * @param messages Messages of the fake Discord client.
+ * @param id Discord message ID.
+ * @returns Identifier of the control message.
+ */
+function ctrlMsg(messages: Map<string, FakeMessage>, id: string): DiscordCtrlTxtMsgID {
+	messages.set(id, { id, embeds: [] });
+	return {
+		ctrl_type: DISCORD_CTRL_TXT_MSG,
+		location: LOCATION,
+		msgID: id,
+	};
+}
+
+/**
+ * Build a bot which uses an in-memory SQLite database, a simulator virtual machine named "minecraft" which changes power state instantly, and a fake Discord client.
+ * @returns The bot, the messages it sent keyed by message ID, and the virtual machine's compute provider.
+ */
+async function testBot(): Promise<{ bot: Bot, messages: Map<string, FakeMessage>, compute: FailingComputeProvider }> {
+	const cfg = await CBotConfig.parseAsync({
+		storage: "sqlite",
+		sqlite: {
+			file: ":memory:",
+		},
+		discord: {
+			guildID: LOCATION.guildID,
+			applicationID: "123456789012345678",
+			botToken: "token",
+		},
+		vms: [
+			{
+				provider: "simulator",
+				friendlyName: "minecraft",
+				simulator: {
+					startSeconds: 0,
+					stopSeconds: 0,
+				},
+			},
+		],
+	});
+	const log = winston.createLogger({
+		transports: [
+			new winston.transports.Console({ silent: true }),
+		],
+	});
+
+	const bot = new Bot(cfg, log);
+	bot.db = await connectBotDB(cfg, log);
+	bot.computeProviders = new Map();
+	const compute = new FailingComputeProvider(log);
+	bot.setComputeProvider("simulator", compute);
+
+	const messages = new Map<string, FakeMessage>();
+	bot.discord = fakeDiscord(messages);
+
+	return { bot, messages, compute };
+}
+
+/**
+ * Poll a power request and save it, like the bot's poll cycle does.
+ * @param bot The bot.
+ * @param id Database ID of the power request.
+ * @returns Resolves with the power request after it was saved.
+ */
+async function pollPowerRequest(bot: Bot, id: string): Promise<PowerRequest> {
+	const powerReq = await PowerRequest.ByID(bot, id);
+	await powerReq.poll();
+	await powerReq.save();
+	return powerReq;
+}
+
+/**
+ * Poll a boot request and save it, like the bot's poll cycle does.
+ * @param bootReq The boot request.
+ * @returns Resolves when saved.
+ */
+async function pollBootRequest(bootReq: BootRequest): Promise<void> {
+	await bootReq.poll();
+	await bootReq.save();
+}
+
+test("a boot request runs its session, warns before it expires, then shuts down the server", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		// Boot
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		assert.equal(await bootReq.initBoot(ctrlMsg(messages, "boot")), true);
+		await bootReq.save();
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Booting);
+
+		const bootPowerID = bootReq.data.stage.booting.power_request_id;
+		assert.equal((await pollPowerRequest(bot, bootPowerID)).data.stage.current, "in_progress");
+		assert.equal((await pollPowerRequest(bot, bootPowerID)).data.stage.current, "success");
+
+		// Running
+		const beforeRunning = Date.now();
+		await pollBootRequest(bootReq);
+		const running = bootReq.data.stage.running;
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Running);
+		assert.ok(running.start_time >= beforeRunning);
+		assert.equal(running.expire_time - running.start_time, vmCfg.sessionLengthMinutes * 60 * 1000);
+
+		// No warning until shortly before the session expires
+		await pollBootRequest(bootReq);
+		assert.equal(running.expire_ctrl_msg_id, undefined);
+
+		running.expire_time = Date.now() + 10 * 60 * 1000;
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Running);
+		assert.equal(running.expire_ctrl_msg_id.ctrl_type, DISCORD_CTRL_TXT_MSG);
+
+		const warnMsgID = running.expire_ctrl_msg_id.ctrl_type === DISCORD_CTRL_TXT_MSG ? running.expire_ctrl_msg_id.msgID : null;
+		assert.match(messages.get(warnMsgID).embeds[0].title, /Shutting Down Soon/);
+
+		// The warning is only sent once
+		const sentCount = messages.size;
+		await pollBootRequest(bootReq);
+		assert.equal(messages.size, sentCount);
+
+		// Expiry shuts the server down, showing progress on the warning message
+		running.expire_time = Date.now() - 1;
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.ShuttingDown);
+
+		const shutdownPowerID = bootReq.data.stage.shutting_down.power_request_id;
+		const shutdownReq = await PowerRequest.ByID(bot, shutdownPowerID);
+		assert.deepEqual(shutdownReq.data.ctrl_msg_id, running.expire_ctrl_msg_id);
+		assert.equal(shutdownReq.data.requester, null);
+
+		// The boot request waits for the shutdown to finish
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.ShuttingDown);
+
+		await pollPowerRequest(bot, shutdownPowerID);
+		assert.equal((await pollPowerRequest(bot, shutdownPowerID)).data.stage.current, "success");
+		assert.equal(await bot.vmCompute(vmCfg).powerState(vmCfg), VMPowerState.Deallocated);
+
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Success);
+		assert.equal(await bot.db.boot_requests.findOngoingByVM(vmCfg.friendlyName), null);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("a boot request ends without a shutdown if someone else shut down the server", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		await bootReq.initBoot(ctrlMsg(messages, "boot"));
+		await bootReq.save();
+
+		const bootPowerID = bootReq.data.stage.booting.power_request_id;
+		await pollPowerRequest(bot, bootPowerID);
+		await pollPowerRequest(bot, bootPowerID);
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Running);
+
+		// Shut down by a user, like with /shutdown
+		const shutdownReq = new PowerRequest(bot, ctrlMsg(messages, "shutdown"), vmCfg, VMPowerState.Deallocated, {
+			user_id: USER_ID,
+			location: LOCATION,
+		});
+		assert.equal(await shutdownReq.saveNew(), true);
+		await pollPowerRequest(bot, shutdownReq.data._id);
+		assert.equal((await pollPowerRequest(bot, shutdownReq.data._id)).data.stage.current, "success");
+
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Success);
+		assert.equal(bootReq.data.stage.shutting_down, undefined);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("power requests retry transient errors with a growing delay", async () => {
+	const { bot, messages, compute } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const powerReq = new PowerRequest(bot, ctrlMsg(messages, "boot"), vmCfg, VMPowerState.Running, null);
+		await powerReq.saveNew();
+		compute.errors.push(azureError("TooManyRequests", 429), azureError("InternalServerError", 500));
+
+		const beforePoll = Date.now();
+		await powerReq.poll();
+		const retry = powerReq.data.stage.retry;
+		assert.equal(powerReq.data.stage.current, "requested");
+		assert.equal(retry.attempts, 1);
+		assert.equal(retry.last_error.code, "TooManyRequests");
+		assert.ok(retry.next_time >= beforePoll + 5000);
+
+		// Nothing happens until the delay is over
+		await powerReq.poll();
+		assert.equal(compute.errors.length, 1);
+
+		retry.next_time = Date.now() - 1;
+		await powerReq.poll();
+		assert.equal(powerReq.data.stage.retry.attempts, 2);
+		assert.ok(powerReq.data.stage.retry.next_time >= Date.now() + 9000);
+
+		// Recovered
+		powerReq.data.stage.retry.next_time = Date.now() - 1;
+		await powerReq.poll();
+		assert.equal(powerReq.data.stage.current, "in_progress");
+		assert.equal(powerReq.data.stage.retry, null);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("power requests fail once transient errors keep happening", async () => {
+	const { bot, messages, compute } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const powerReq = new PowerRequest(bot, ctrlMsg(messages, "boot"), vmCfg, VMPowerState.Running, null);
+		await powerReq.saveNew();
+
+		compute.errors.push(azureError("TooManyRequests", 429));
+		await powerReq.poll();
+
+		powerReq.data.stage.retry.attempts = 6;
+		powerReq.data.stage.retry.next_time = Date.now() - 1;
+		compute.errors.push(azureError("TooManyRequests", 429));
+		await powerReq.poll();
+
+		assert.equal(powerReq.data.stage.current, "error");
+		assert.equal(powerReq.data.stage.error.internal.kind, PowerErrorKind.Transient);
+		assert.match(messages.get("boot").content, /Sorry/);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("power requests fail straight away on permanent errors", async () => {
+	const { bot, messages, compute } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const powerReq = new PowerRequest(bot, ctrlMsg(messages, "boot"), vmCfg, VMPowerState.Running, null);
+		await powerReq.saveNew();
+
+		compute.errors.push(azureError("ResourceNotFound", 404));
+		await powerReq.poll();
+
+		assert.equal(powerReq.data.stage.current, "error");
+		assert.equal(powerReq.data.stage.error.internal.kind, PowerErrorKind.VMNotFound);
+		assert.equal(powerReq.data.stage.retry, undefined);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("power requests keep going when other things fail", async () => {
+	const { bot, compute } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		// The control message was deleted, so editing it fails
+		const powerReq = new PowerRequest(bot, { ctrl_type: DISCORD_CTRL_TXT_MSG, location: LOCATION, msgID: "deleted" }, vmCfg, VMPowerState.Running, null);
+		await powerReq.saveNew();
+		await powerReq.poll();
+
+		assert.equal(powerReq.data.stage.current, "in_progress");
+		assert.equal(await compute.powerState(vmCfg), VMPowerState.Running);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("power requests which take longer than their timeout stop and mention admins", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg: VMConfig = {
+		...bot.cfg.vms[0],
+		simulator: {
+			startSeconds: 600,
+			stopSeconds: 0,
+		},
+		timeouts: {
+			...bot.cfg.vms[0].timeouts,
+			mentionUserIDs: [ USER_ID ],
+		},
+	};
+
+	try {
+		const powerReq = new PowerRequest(bot, ctrlMsg(messages, "boot"), vmCfg, VMPowerState.Running, {
+			user_id: USER_ID,
+			location: LOCATION,
+		});
+		await powerReq.saveNew();
+		await powerReq.poll();
+		assert.equal(powerReq.data.stage.current, "in_progress");
+
+		// Still starting, but within the timeout
+		powerReq.data.stage.in_progress.time = Date.now() - 19 * 60 * 1000;
+		await powerReq.poll();
+		assert.equal(powerReq.data.stage.current, "in_progress");
+		assert.equal(powerReq.data.stage.in_progress.last_power, VMPowerState.Starting);
+
+		powerReq.data.stage.in_progress.time = Date.now() - 21 * 60 * 1000;
+		await powerReq.poll();
+		assert.equal(powerReq.data.stage.current, "timed_out");
+		assert.equal(powerReq.data.stage.timed_out.timeout_minutes, 20);
+		assert.match(messages.get("boot").embeds[0].title, /Timed Out/);
+
+		const mention = Array.from(messages.values()).find((msg) => msg.content !== undefined && msg.content.indexOf(`<@${USER_ID}>`) !== -1);
+		assert.notEqual(mention, undefined);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("a boot request whose boot timed out still manages the session if the server is starting", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg: VMConfig = {
+		...bot.cfg.vms[0],
+		simulator: {
+			startSeconds: 600,
+			stopSeconds: 0,
+		},
+	};
+
+	try {
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		await bootReq.initBoot(ctrlMsg(messages, "boot"));
+		await bootReq.save();
+
+		const powerReq = await pollPowerRequest(bot, bootReq.data.stage.booting.power_request_id);
+		powerReq.data.stage.in_progress.time = Date.now() - 21 * 60 * 1000;
+		await powerReq.poll();
+		await powerReq.save();
+		assert.equal(powerReq.data.stage.current, "timed_out");
+
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Running);
+		assert.equal(bootReq.data.stage.running.expire_time - bootReq.data.stage.running.start_time, vmCfg.sessionLengthMinutes * 60 * 1000);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("power requests which start a server wait for its readiness probe", async () => {
+	const { bot, messages } = await testBot();
+
+	// Reserve a port for the game server, it isn't ready until something listens on it
+	const server = net.createServer((socket) => socket.destroy());
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const port = (server.address() as net.AddressInfo).port;
+	await new Promise((resolve) => server.close(resolve));
+
+	const vmCfg: VMConfig = {
+		...bot.cfg.vms[0],
+		readinessProbe: {
+			type: "tcp",
+			host: "127.0.0.1",
+			port,
+			timeoutMs: 1000,
+		},
+	};
+
+	try {
+		const powerReq = new PowerRequest(bot, ctrlMsg(messages, "boot"), vmCfg, VMPowerState.Running, null);
+		await powerReq.saveNew();
+		await powerReq.poll();
+		await powerReq.poll();
+		assert.equal(powerReq.data.stage.current, "in_progress");
+		assert.equal(powerReq.data.stage.in_progress.last_power, VMPowerState.Running);
+		assert.match(messages.get("boot").embeds[0].description, /game is still starting/);
+
+		await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+		try {
+			await powerReq.poll();
+		} finally {
+			server.close();
+		}
+		assert.equal(powerReq.data.stage.current, "success");
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("only one of two power requests saved at once for the same server is saved", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		// Like /boot and /shutdown, which hold different locks
+		const bootReq = new PowerRequest(bot, ctrlMsg(messages, "boot"), vmCfg, VMPowerState.Running, null);
+		const shutdownReq = new PowerRequest(bot, ctrlMsg(messages, "shutdown"), vmCfg, VMPowerState.Deallocated, null);
+		const saved = await Promise.all([ bootReq.saveNew(), shutdownReq.saveNew() ]);
+
+		assert.deepEqual(saved.sort(), [ false, true ]);
+		assert.equal((await bot.db.power_requests.listOngoing()).length, 1);
+
+		// Another server isn't blocked
+		const otherReq = new PowerRequest(bot, ctrlMsg(messages, "other"), { ...vmCfg, friendlyName: "valheim" }, VMPowerState.Running, null);
+		assert.equal(await otherReq.saveNew(), true);
+
+		// The lease was released, only the ongoing power request blocks new ones now
+		const laterReq = new PowerRequest(bot, ctrlMsg(messages, "later"), vmCfg, VMPowerState.Running, null);
+		assert.equal(await laterReq.saveNew(), false);
+		assert.equal(await laterReq.saveNew((await bot.db.power_requests.findOngoingByVM(vmCfg.friendlyName))._id), true);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("boot requests polled for the poll cycle stop once the poll lease is lost", async () => {
+	const { bot, messages, compute } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		await bootReq.initBoot(ctrlMsg(messages, "boot"));
+		await bootReq.save();
+
+		// The boot timed out, checking if the server started anyway needs the lease
+		const powerReq = await PowerRequest.ByID(bot, bootReq.data.stage.booting.power_request_id);
+		powerReq.data.stage.current = "timed_out";
+		powerReq.data.stage.timed_out = {
+			time: Date.now(),
+			timeout_minutes: 20,
+		};
+		await powerReq.save();
+
+		bot.pollLeaseExpireTime = null;
+		await bootReq.poll(true);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Booting);
+		assert.equal(compute.powerStateCalls, 0);
+
+		bot.pollLeaseExpireTime = Date.now() + 30 * 1000;
+		await bootReq.poll(true);
+		assert.equal(compute.powerStateCalls, 1);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Error);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("boot requests polled for the poll cycle only shut down servers while holding the poll lease", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		await bootReq.initBoot(ctrlMsg(messages, "boot"));
+		await bootReq.save();
+
+		const bootPowerID = bootReq.data.stage.booting.power_request_id;
+		await pollPowerRequest(bot, bootPowerID);
+		await pollPowerRequest(bot, bootPowerID);
+		await pollBootRequest(bootReq);
+		bootReq.data.stage.running.expire_time = Date.now() - 1;
+
+		// The lease has less time left than a poll may take
+		bot.pollLeaseExpireTime = Date.now() + 5 * 1000;
+		await bootReq.poll(true);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Running);
+		assert.equal(await bot.db.power_requests.findOngoingByVM(vmCfg.friendlyName), null);
+
+		bot.pollLeaseExpireTime = Date.now() + 30 * 1000;
+		await bootReq.poll(true);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.ShuttingDown);
+		assert.notEqual(await bot.db.power_requests.findOngoingByVM(vmCfg.friendlyName), null);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("new power requests are only polled straight away by the instance holding the poll lease", async () => {
+	const { bot, messages, compute } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const powerReq = new PowerRequest(bot, ctrlMsg(messages, "shutdown"), vmCfg, VMPowerState.Deallocated, null);
+		await powerReq.saveNew();
+
+		// Left to the instance which polls ongoing power requests
+		await bot.pollNewPowerRequest(powerReq);
+		assert.equal(compute.powerStateCalls, 0);
+		assert.equal((await bot.db.power_requests.get(powerReq.data._id)).stage.current, "requested");
+
+		bot.pollLeaseExpireTime = Date.now() + 30 * 1000;
+		await bot.pollNewPowerRequest(powerReq);
+		assert.equal(compute.powerStateCalls, 1);
+		assert.equal((await bot.db.power_requests.get(powerReq.data._id)).stage.current, "success");
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("poll cycles don't overwrite sessions extended by another instance while they poll", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	// Another instance without the poll lease, which shares the database
+	const other = new Bot(bot.cfg, bot.log);
+	other.db = bot.db;
+	other.discord = bot.discord;
+	other.computeProviders = bot.computeProviders;
+
+	try {
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		await bootReq.initBoot(ctrlMsg(messages, "boot"));
+		await bootReq.save();
+
+		const bootPowerID = bootReq.data.stage.booting.power_request_id;
+		await pollPowerRequest(bot, bootPowerID);
+		await pollPowerRequest(bot, bootPowerID);
+		await pollBootRequest(bootReq);
+		const expireTime = bootReq.data.stage.running.expire_time;
+
+		// Extend the session after the poll cycle loaded the boot request
+		const listOngoing = bot.db.boot_requests.listOngoing.bind(bot.db.boot_requests);
+		bot.db.boot_requests.listOngoing = async () => {
+			const ongoing = await listOngoing();
+			await other.extendSession(vmCfg, 30);
+			return ongoing;
+		};
+
+		bot.pollLeaseExpireTime = Date.now() + 30 * 1000;
+		await bot.pollOngoingCycle();
+
+		const saved = await bot.db.boot_requests.get(bootReq.data._id);
+		assert.equal(saved.stage.running.expire_time, expireTime + 30 * 60 * 1000);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("requests polled for the poll cycle only message users while holding the poll lease", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg: VMConfig = {
+		...bot.cfg.vms[0],
+		timeouts: {
+			...bot.cfg.vms[0].timeouts,
+			mentionUserIDs: [ USER_ID ],
+		},
+	};
+
+	try {
+		// Timing out edits the control message and mentions admins
+		const powerReq = new PowerRequest(bot, ctrlMsg(messages, "boot"), vmCfg, VMPowerState.Running, {
+			user_id: USER_ID,
+			location: LOCATION,
+		});
+		await powerReq.saveNew();
+		powerReq.data.stage.requested.time = Date.now() - 21 * 60 * 1000;
+
+		await powerReq.poll(true);
+		assert.deepEqual(messages.get("boot").embeds, []);
+		assert.equal(messages.size, 1);
+
+		bot.pollLeaseExpireTime = Date.now() + 30 * 1000;
+		await powerReq.poll(true);
+		assert.equal(powerReq.data.stage.current, "timed_out");
+		assert.match(messages.get("boot").embeds[0].title, /Timed Out/);
+		assert.equal(messages.size, 2);
+
+		// The session expiry warning
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		bootReq.data.stage.current = BootRequestStage.Running;
+		bootReq.data.stage.running = {
+			start_time: Date.now(),
+			expire_time: Date.now() + 10 * 60 * 1000,
+		};
+
+		bot.pollLeaseExpireTime = null;
+		await bootReq.poll(true);
+		assert.equal(bootReq.data.stage.running.expire_ctrl_msg_id, undefined);
+		assert.equal(messages.size, 2);
+
+		bot.pollLeaseExpireTime = Date.now() + 30 * 1000;
+		await bootReq.poll(true);
+		assert.notEqual(bootReq.data.stage.running.expire_ctrl_msg_id, undefined);
+		assert.equal(messages.size, 3);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("sessions which end while another power request is waiting to start don't post shutdown messages", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		bootReq.data.stage.current = BootRequestStage.Running;
+		bootReq.data.stage.running = {
+			start_time: Date.now() - 1000,
+			expire_time: Date.now() - 1,
+		};
+
+		// Saved by a command, but not polled yet
+		const otherReq = new PowerRequest(bot, ctrlMsg(messages, "other"), vmCfg, VMPowerState.Running, null);
+		await otherReq.saveNew();
+
+		let called = false;
+		await bootReq.shutdown(async () => {
+			called = true;
+			return ctrlMsg(messages, "shutdown");
+		}, null);
+		assert.equal(called, false);
+
+		await bootReq.poll();
+		await bootReq.poll();
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Running);
+		assert.equal(messages.size, 1);
+
+		// Once it's done the warning message sent for the expiry shows the shutdown
+		otherReq.data.stage.current = "success";
+		await otherReq.save();
+		await bootReq.poll();
+		assert.equal(bootReq.data.stage.current, BootRequestStage.ShuttingDown);
+		assert.equal(messages.size, 2);
+		const shutdownReq = await PowerRequest.ByID(bot, bootReq.data.stage.shutting_down.power_request_id);
+		assert.deepEqual(shutdownReq.data.ctrl_msg_id, bootReq.data.stage.running.expire_ctrl_msg_id);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("power requests only succeed once their control message shows it", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		// The message can't be edited until it is added to the channel
+		const ctrlMsgID = ctrlMsg(messages, "boot");
+		messages.delete("boot");
+
+		const powerReq = new PowerRequest(bot, ctrlMsgID, vmCfg, VMPowerState.Running, null);
+		await powerReq.saveNew();
+		await powerReq.poll();
+		await powerReq.poll();
+		assert.equal(powerReq.data.stage.in_progress.last_power, VMPowerState.Running);
+		assert.equal(powerReq.data.stage.current, "in_progress");
+
+		ctrlMsg(messages, "boot");
+		await powerReq.poll();
+		assert.equal(powerReq.data.stage.current, "success");
+		assert.match(messages.get("boot").embeds[0].description, /All done/);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("users need an action's permission rule, or the permission role if the action has no rule", async () => {
+	const { bot } = await testBot();
+	const playerRoleID = "423456789012345678";
+	const modRoleID = "523456789012345678";
+	const otherUserID = "623456789012345678";
+
+	bot.cfg.discord.permissionRoleID = playerRoleID;
+	const vmCfg: VMConfig = {
+		...bot.cfg.vms[0],
+		permissions: {
+			boot: { roleIDs: [], userIDs: [ otherUserID ] },
+			shutdown: { roleIDs: [ modRoleID ], userIDs: [] },
+			other: { roleIDs: [], userIDs: [] },
+			admin: { roleIDs: [ modRoleID ], userIDs: [] },
+		},
+	};
+	const noRulesVMCfg: VMConfig = { ...vmCfg, permissions: {} };
+
+	try {
+		// Rules allow listed users and roles, the permission role doesn't count
+		assert.equal(bot.permissionDenial(fakeMember([]), otherUserID, "boot", vmCfg), null);
+		assert.match(bot.permissionDenial(fakeMember([ playerRoleID ]), USER_ID, "boot", vmCfg), new RegExp(`Only <@${otherUserID}> can do this`));
+		assert.equal(bot.permissionDenial(fakeMember([ modRoleID ]), USER_ID, "shutdown", vmCfg), null);
+		assert.match(bot.permissionDenial(fakeMember([ playerRoleID ]), USER_ID, "shutdown", vmCfg), new RegExp(`users with the <@&${modRoleID}> role`));
+		assert.notEqual(bot.permissionDenial(null, USER_ID, "shutdown", vmCfg), null);
+		assert.match(bot.permissionDenial(fakeMember([ playerRoleID ]), USER_ID, "other", vmCfg), /no one is allowed/);
+
+		// Without a rule the permission role is needed
+		assert.equal(bot.permissionDenial(fakeMember([ playerRoleID ]), USER_ID, "boot", noRulesVMCfg), null);
+		assert.match(bot.permissionDenial(fakeMember([ modRoleID ]), USER_ID, "boot", noRulesVMCfg), new RegExp(`must have the <@&${playerRoleID}> role`));
+		assert.equal(bot.permissionDenial(fakeMember([ playerRoleID ]), USER_ID, "other"), null);
+
+		// Admin actions always need a rule
+		assert.equal(bot.permissionDenial(fakeMember([ modRoleID ]), USER_ID, "admin", vmCfg), null);
+		assert.match(bot.permissionDenial(fakeMember([ playerRoleID ]), USER_ID, "admin", noRulesVMCfg), /An admin rule must be configured first/);
+		assert.match(bot.permissionDenial(fakeMember([ playerRoleID ]), USER_ID, "admin"), /servers/);
+
+		// Without a permission role everyone is allowed, except for admin actions
+		bot.cfg.discord.permissionRoleID = undefined;
+		assert.equal(bot.permissionDenial(null, USER_ID, "shutdown", noRulesVMCfg), null);
+		assert.notEqual(bot.permissionDenial(null, USER_ID, "admin", noRulesVMCfg), null);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("cancelled power requests can return the server to how it was before", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		await bootReq.initBoot(ctrlMsg(messages, "boot"));
+		await bootReq.save();
+
+		const powerReq = await pollPowerRequest(bot, bootReq.data.stage.booting.power_request_id);
+		assert.equal(powerReq.data.stage.in_progress.start_power, VMPowerState.Deallocated);
+
+		// The revert is saved while the cancelled power request is still ongoing
+		const requester = { user_id: USER_ID, location: LOCATION };
+		assert.equal(await bot.cancelPowerRequest(powerReq, requester, ctrlMsg(messages, "revert")), null);
+		assert.equal(powerReq.data.stage.current, "cancelled");
+		assert.match(messages.get("boot").embeds[0].title, /Start Cancelled/);
+
+		const revertID = powerReq.data.stage.cancelled.revert_power_request_id;
+		const revertReq = await PowerRequest.ByID(bot, revertID);
+		assert.equal(revertReq.data.target_power, VMPowerState.Deallocated);
+		assert.equal(revertReq.data.stage.current, "requested");
+
+		// The boot request waits for the revert before deciding the session is over
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Booting);
+
+		await pollPowerRequest(bot, revertID);
+		assert.equal((await pollPowerRequest(bot, revertID)).data.stage.current, "success");
+
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Cancelled);
+
+		// Nothing to undo before the power request started changing the server
+		const shutdownReq = new PowerRequest(bot, ctrlMsg(messages, "shutdown"), vmCfg, VMPowerState.Deallocated, null);
+		await shutdownReq.saveNew();
+		assert.match(await bot.cancelPowerRequest(shutdownReq, requester, ctrlMsg(messages, "revert2")), /nothing to undo/);
+		assert.equal(await bot.db.power_requests.findOngoingByVM(vmCfg.friendlyName), null);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("cancel buttons check permissions before replying, and only tell the user who clicked if they are denied", async () => {
+	const { bot, messages } = await testBot();
+	bot.cfg.vms[0].permissions = {
+		boot: { roleIDs: [ "423456789012345678" ], userIDs: [] },
+	};
+	const vmCfg = bot.cfg.vms[0];
+
+	try {
+		const powerReq = new PowerRequest(bot, ctrlMsg(messages, "boot"), vmCfg, VMPowerState.Running, null);
+		await powerReq.saveNew();
+		const customId = (powerReq.cancelButtons()[0].components[0] as MessageButton).customId;
+
+		const denied: FakeReply[] = [];
+		await bot.onDiscordButton(fakeButton(customId, fakeMember([]), denied));
+		assert.deepEqual(denied.map((reply) => reply.method), [ "reply" ]);
+		assert.equal(denied[0].opts.ephemeral, true);
+		assert.match(denied[0].opts.content, /do not have permission/);
+		assert.equal((await bot.db.power_requests.get(powerReq.data._id)).stage.current, "requested");
+
+		const allowed: FakeReply[] = [];
+		await bot.onDiscordButton(fakeButton(customId, fakeMember([ "423456789012345678" ]), allowed));
+		assert.deepEqual(allowed.map((reply) => reply.method), [ "deferReply", "editReply" ]);
+		assert.equal((await bot.db.power_requests.get(powerReq.data._id)).stage.current, "cancelled");
+
+		const finished: FakeReply[] = [];
+		await bot.onDiscordButton(fakeButton(customId, fakeMember([ "423456789012345678" ]), finished));
+		assert.deepEqual(finished.map((reply) => reply.method), [ "reply" ]);
+		assert.match(finished[0].opts.content, /already finished/);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+/**
+ * Build the control message ID of an interaction's initial response in LOCATION.
+ * @param ageMinutes How long ago the interaction was created.
+ * @returns Identifier of the control message.
+ */
+function interactionCtrlMsg(ageMinutes: number): DiscordCtrlInteractionID {
+	return {
+		ctrl_type: DISCORD_CTRL_INTERACTION,
+		id: "823456789012345678",
+		token: "token",
+		location: LOCATION,
+		created_time: Date.now() - ageMinutes * 60 * 1000,
+	};
+}
+
+test("control messages move to a regular message once their interaction token expires", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+	const editInitResp = DiscordInteraction.prototype.editInitResp;
+	const editInitRespComponents = DiscordInteraction.prototype.editInitRespComponents;
+
+	try {
+		let edits = 0;
+		DiscordInteraction.prototype.editInitResp = async () => {
+			edits++;
+		};
+		DiscordInteraction.prototype.editInitRespComponents = async () => {
+			edits++;
+		};
+
+		// Tokens which are about to expire aren't used
+		const powerReq = new PowerRequest(bot, interactionCtrlMsg(15), vmCfg, VMPowerState.Running, null);
+		await powerReq.saveNew();
+		await pollPowerRequest(bot, powerReq.data._id);
+		assert.equal(edits, 0);
+
+		const moved = await PowerRequest.ByID(bot, powerReq.data._id);
+		assert.equal(moved.data.ctrl_msg_id.ctrl_type, DISCORD_CTRL_TXT_MSG);
+		const msgID = moved.data.ctrl_msg_id.ctrl_type === DISCORD_CTRL_TXT_MSG ? moved.data.ctrl_msg_id.msgID : null;
+		assert.match(messages.get(msgID).embeds[0].title, /Start minecraft Server/);
+
+		// Tokens which Discord says are invalid or unknown
+		for (const status of [ 401, 404 ]) {
+			DiscordInteraction.prototype.editInitResp = async () => {
+				throw new DiscordHTTPError("/webhooks", status, "");
+			};
+			const ctrlMsgClient = new DiscordCtrlMsg(bot, interactionCtrlMsg(1));
+			await ctrlMsgClient.edit("expired");
+			assert.equal(ctrlMsgClient.id.ctrl_type, DISCORD_CTRL_TXT_MSG);
+		}
+
+		// Other errors aren't because of the token
+		DiscordInteraction.prototype.editInitResp = async () => {
+			throw new DiscordHTTPError("/webhooks", 500, "");
+		};
+		const failedClient = new DiscordCtrlMsg(bot, interactionCtrlMsg(1));
+		await assert.rejects(failedClient.edit("failed"), DiscordHTTPError);
+		assert.equal(failedClient.id.ctrl_type, DISCORD_CTRL_INTERACTION);
+	} finally {
+		DiscordInteraction.prototype.editInitResp = editInitResp;
+		DiscordInteraction.prototype.editInitRespComponents = editInitRespComponents;
+		await bot.db.close();
+	}
+});
+
+test("boot requests save the control message the session buttons were moved to", async () => {
+	const { bot, messages } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+	const editInitResp = DiscordInteraction.prototype.editInitResp;
+
+	try {
+		DiscordInteraction.prototype.editInitResp = async () => {};
+
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		await bootReq.initBoot(interactionCtrlMsg(1));
+		await bootReq.save();
+
+		const bootPowerID = bootReq.data.stage.booting.power_request_id;
+		await pollPowerRequest(bot, bootPowerID);
+		const powerReq = await pollPowerRequest(bot, bootPowerID);
+		assert.equal(powerReq.data.stage.current, "success");
+		assert.equal(powerReq.data.ctrl_msg_id.ctrl_type, DISCORD_CTRL_INTERACTION);
+
+		// The token expired by the time the buttons are added
+		(powerReq.data.ctrl_msg_id as DiscordCtrlInteractionID).created_time = Date.now() - 20 * 60 * 1000;
+		await powerReq.save();
+
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Running);
+
+		const moved = await PowerRequest.ByID(bot, bootPowerID);
+		assert.equal(moved.data.ctrl_msg_id.ctrl_type, DISCORD_CTRL_TXT_MSG);
+		const msgID = moved.data.ctrl_msg_id.ctrl_type === DISCORD_CTRL_TXT_MSG ? moved.data.ctrl_msg_id.msgID : null;
+		assert.match(messages.get(msgID).embeds[0].title, /Server Running/);
+	} finally {
+		DiscordInteraction.prototype.editInitResp = editInitResp;
+		await bot.db.close();
+	}
+});
+
+test("/notify subscribes to a server's notifications, and unsubscribes if run again", async () => {
+	const { bot } = await testBot();
+
+	try {
+		const replies: FakeReply[] = [];
+		await bot.onDiscordCmd(fakeCommand("notify", { server: "minecraft" }, replies));
+		assert.deepEqual((await bot.db.notify_subscriptions.listByVM("minecraft")).map((sub) => sub.user_id), [ USER_ID ]);
+		assert.equal(replies[0].opts.ephemeral, true);
+
+		await bot.onDiscordCmd(fakeCommand("notify", { server: "minecraft" }, replies));
+		assert.deepEqual(await bot.db.notify_subscriptions.listByVM("minecraft"), []);
+		assert.deepEqual(replies.map((reply) => reply.method), [ "deferReply", "editReply", "deferReply", "editReply" ]);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("notification subscribers get a direct message when power requests end, until the boot session ends", async () => {
+	const { bot, messages, compute } = await testBot();
+	const vmCfg = bot.cfg.vms[0];
+	const dms = () => Array.from(messages.values()).filter((msg) => msg.dmUserID === USER_ID);
+
+	try {
+		await bot.db.notify_subscriptions.save({ vm_name: vmCfg.friendlyName, user_id: USER_ID, time: Date.now() });
+
+		const bootReq = new BootRequest(bot, vmCfg, LOCATION, USER_ID);
+		await bootReq.initBoot(ctrlMsg(messages, "boot"));
+		await bootReq.save();
+
+		const bootPowerID = bootReq.data.stage.booting.power_request_id;
+		await pollPowerRequest(bot, bootPowerID);
+		assert.equal(dms().length, 0);
+		await pollPowerRequest(bot, bootPowerID);
+		assert.equal(dms().length, 1);
+		assert.match(dms()[0].embeds[0].description, /is Running now/);
+
+		// Failures
+		const errorReq = new PowerRequest(bot, ctrlMsg(messages, "error"), { ...vmCfg, friendlyName: "valheim" }, VMPowerState.Running, null);
+		await bot.db.notify_subscriptions.save({ vm_name: "valheim", user_id: USER_ID, time: Date.now() });
+		await errorReq.saveNew();
+		compute.errors.push(azureError("ResourceNotFound", 404));
+		await errorReq.poll();
+		assert.equal(dms().length, 2);
+		assert.match(dms()[1].embeds[0].title, /:warning:/);
+
+		const timeoutReq = new PowerRequest(bot, ctrlMsg(messages, "timeout"), { ...vmCfg, friendlyName: "valheim" }, VMPowerState.Running, null);
+		timeoutReq.data.stage.requested.time = Date.now() - 21 * 60 * 1000;
+		await timeoutReq.poll();
+		assert.equal(dms().length, 3);
+		assert.match(dms()[2].embeds[0].title, /:alarm_clock:/);
+
+		// Subscriptions end with the boot session
+		await pollBootRequest(bootReq);
+		assert.equal((await bot.db.notify_subscriptions.listByVM(vmCfg.friendlyName)).length, 1);
+
+		bootReq.data.stage.running.expire_time = Date.now() - 1;
+		await pollBootRequest(bootReq);
+		const shutdownID = bootReq.data.stage.shutting_down.power_request_id;
+		await pollPowerRequest(bot, shutdownID);
+		await pollPowerRequest(bot, shutdownID);
+		assert.equal(dms().length, 4);
+		assert.match(dms()[3].embeds[0].description, /is Turned Off now/);
+
+		await pollBootRequest(bootReq);
+		assert.equal(bootReq.data.stage.current, BootRequestStage.Success);
+		assert.deepEqual(await bot.db.notify_subscriptions.listByVM(vmCfg.friendlyName), []);
+		assert.equal((await bot.db.notify_subscriptions.listByVM("valheim")).length, 1);
+	} finally {
+		await bot.db.close();
+	}
+});
+
+test("health checks fail if the database doesn't respond, or if the poll lease holder hasn't polled recently", async () => {
+	const { bot } = await testBot();
+	bot.cfg.http = { port: 9090, host: "127.0.0.1", maxPollAgeSeconds: 60 };
+
+	// Instances without the poll lease don't poll, so aren't checked
+	bot.startTime = Date.now() - 60 * 60 * 1000;
+	assert.deepEqual(await bot.healthCheck(), {
+		healthy: true,
+		discord: true,
+		database: true,
+		polling: true,
+		poll_lease: false,
+		last_poll_time: null,
+	});
+
+	bot.pollLeaseExpireTime = Date.now() + 60 * 1000;
+	let health = await bot.healthCheck();
+	assert.equal(health.healthy, false);
+	assert.equal(health.polling, false);
+
+	bot.lastPollTime = Date.now();
+	health = await bot.healthCheck();
+	assert.equal(health.healthy, true);
+	assert.equal(health.last_poll_time, new Date(bot.lastPollTime).toISOString());
+
+	await bot.db.close();
+	health = await bot.healthCheck();
+	assert.equal(health.healthy, false);
+	assert.equal(health.database, false);
+});
+
+test("reloading the configuration keeps the old one if the file is invalid or changes fields which need a restart", async () => {
+	const { bot } = await testBot();
+	const dir = await fs.mkdtemp(path.join(os.tmpdir(), "discord-azure-boot-"));
+	bot.cfgFile = path.join(dir, "config.json5");
+	let registered = 0;
+	bot.registerCommands = async () => {
+		registered++;
+	};
+
+	const vm = {
+		provider: "simulator",
+		friendlyName: "minecraft",
+		sessionLengthMinutes: 120,
+		simulator: {
+			startSeconds: 0,
+			stopSeconds: 0,
+		},
+	};
+	const writeConfig = async (botToken: string, vms: object[]) => {
+		await fs.writeFile(bot.cfgFile, JSON.stringify({
+			storage: "sqlite",
+			sqlite: {
+				file: ":memory:",
+			},
+			discord: {
+				guildID: LOCATION.guildID,
+				applicationID: "123456789012345678",
+				botToken,
+			},
+			vms,
+		}));
+	};
+
+	try {
+		await fs.writeFile(bot.cfgFile, "{ vms: [");
+		await bot.reloadConfig();
+		assert.equal(bot.cfg.vms[0].sessionLengthMinutes, 240);
+
+		await writeConfig("new token", [ vm ]);
+		await bot.reloadConfig();
+		assert.equal(bot.cfg.vms[0].sessionLengthMinutes, 240);
+		assert.equal(bot.cfg.discord.botToken, "token");
+
+		// Commands only list virtual machine names, so only need to be registered again if the names change
+		await writeConfig("token", [ vm ]);
+		await bot.reloadConfig();
+		assert.equal(bot.cfg.vms[0].sessionLengthMinutes, 120);
+		assert.equal(registered, 0);
+
+		await writeConfig("token", [ vm, { ...vm, friendlyName: "valheim" } ]);
+		await bot.reloadConfig();
+		assert.deepEqual(bot.cfg.vms.map((vmCfg) => vmCfg.friendlyName), [ "minecraft", "valheim" ]);
+		assert.equal(registered, 1);
+	} finally {
+		await fs.rm(dir, { recursive: true });
+		await bot.db.close();
+	}
+});
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { Counter, Gauge, Histogram, metricsText } from "../metrics";
+
+test("label values are escaped, and labels are sorted by name", () => {
+	const counter = new Counter("errors_total", "Number of errors.");
+	counter.inc({ path: "C:\\games", error: "said \"no\"\nthen left" });
+	counter.inc({});
+	counter.inc({}, 2);
+
+	assert.deepEqual(counter.lines(), [
+		"# HELP errors_total Number of errors.",
+		"# TYPE errors_total counter",
+		"errors_total{error=\"said \\\"no\\\"\\nthen left\",path=\"C:\\\\games\"} 1",
+		"errors_total 3",
+	]);
+});
+
+test("gauges keep the last value set for each series until reset", () => {
+	const gauge = new Gauge("ongoing", "Number of ongoing requests.");
+	gauge.set({ vm: "minecraft" }, 1);
+	gauge.set({ vm: "minecraft" }, 2);
+
+	assert.deepEqual(gauge.lines().slice(2), [ "ongoing{vm=\"minecraft\"} 2" ]);
+
+	gauge.reset();
+	assert.deepEqual(gauge.lines().slice(2), []);
+});
+
+test("histograms count observations in every bucket they fit in, plus +Inf, sum, and count", () => {
+	const histogram = new Histogram("duration_seconds", "Duration.", [ 0.5, 1 ]);
+	histogram.observe({ op: "start" }, 0.25);
+	histogram.observe({ op: "start" }, 0.75);
+	histogram.observe({ op: "start" }, 5);
+	histogram.observe({}, 1);
+
+	assert.deepEqual(histogram.lines(), [
+		"# HELP duration_seconds Duration.",
+		"# TYPE duration_seconds histogram",
+		"duration_seconds_bucket{le=\"0.5\",op=\"start\"} 1",
+		"duration_seconds_bucket{le=\"1\",op=\"start\"} 2",
+		"duration_seconds_bucket{le=\"+Inf\",op=\"start\"} 3",
+		"duration_seconds_sum{op=\"start\"} 6",
+		"duration_seconds_count{op=\"start\"} 3",
+		"duration_seconds_bucket{le=\"0.5\"} 0",
+		"duration_seconds_bucket{le=\"1\"} 1",
+		"duration_seconds_bucket{le=\"+Inf\"} 1",
+		"duration_seconds_sum 1",
+		"duration_seconds_count 1",
+	]);
+});
+
+test("metrics text has each metric's lines in order, ending with a newline", () => {
+	const counter = new Counter("a_total", "A.");
+	counter.inc({});
+	const gauge = new Gauge("b", "B.");
+
+	assert.equal(metricsText([ counter, gauge ]), [
+		"# HELP a_total A.",
+		"# TYPE a_total counter",
+		"a_total 1",
+		"# HELP b B.",
+		"# TYPE b gauge",
+		"",
+	].join("\n"));
+});
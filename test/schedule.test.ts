@@ -0,0 +1,115 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import moment from "moment";
+
+import { parseScheduleTime, nextCronTime, quietHoursAt, nextQuietHoursStart } from "../schedule";
+
+/**
+ * Get a unix time in the local time zone.
+ * @param str Time like "2024-01-10 22:30".
+ * @returns Unix time in milliseconds.
+ */
+function localTime(str: string): number {
+	return moment(str, "YYYY-MM-DD HH:mm", true).valueOf();
+}
+
+test("parseScheduleTime accepts each format in the local time zone", () => {
+	const expected = localTime("2024-01-10 22:30");
+
+	assert.equal(parseScheduleTime("2024-01-10 22:30"), expected);
+	assert.equal(parseScheduleTime("2024-01-10T22:30"), expected);
+	assert.equal(parseScheduleTime("2024-01-10 10:30 pm"), expected);
+	assert.equal(parseScheduleTime(" 2024-01-10 10:30pm "), expected);
+});
+
+test("parseScheduleTime rejects invalid times", () => {
+	assert.equal(parseScheduleTime(""), null);
+	assert.equal(parseScheduleTime("tomorrow"), null);
+	assert.equal(parseScheduleTime("2024-01-10"), null);
+	assert.equal(parseScheduleTime("2024-02-30 10:00"), null);
+	assert.equal(parseScheduleTime("2024-01-10 25:00"), null);
+});
+
+test("nextCronTime finds the next match after a time", () => {
+	assert.equal(nextCronTime("30 22 * * *", localTime("2024-01-10 12:00")), localTime("2024-01-10 22:30"));
+	assert.equal(nextCronTime("30 22 * * *", localTime("2024-01-10 23:00")), localTime("2024-01-11 22:30"));
+
+	// 2024-01-10 is a Wednesday, the next Monday is the 15th
+	assert.equal(nextCronTime("0 18 * * 1", localTime("2024-01-10 12:00")), localTime("2024-01-15 18:00"));
+});
+
+test("nextCronTime does not match the time it starts from", () => {
+	assert.equal(nextCronTime("30 22 * * *", localTime("2024-01-10 22:30")), localTime("2024-01-11 22:30"));
+});
+
+test("nextCronTime crosses the end of the month and year", () => {
+	assert.equal(nextCronTime("0 9 1 * *", localTime("2024-01-31 12:00")), localTime("2024-02-01 09:00"));
+	assert.equal(nextCronTime("0 0 * * *", localTime("2024-12-31 23:59")), localTime("2025-01-01 00:00"));
+});
+
+test("nextCronTime requires 5 fields", () => {
+	assert.throws(() => nextCronTime("0 0 * *", localTime("2024-01-10 12:00")));
+	assert.throws(() => nextCronTime("0 0 0 * * *", localTime("2024-01-10 12:00")));
+	assert.throws(() => nextCronTime("not a cron expression", localTime("2024-01-10 12:00")));
+});
+
+test("quietHoursAt finds windows within a day", () => {
+	const windows = [ { start: "09:00", end: "17:00", days: [ 0, 1, 2, 3, 4, 5, 6 ] } ];
+
+	assert.equal(quietHoursAt(windows, localTime("2024-01-10 08:59")), null);
+	assert.deepEqual(quietHoursAt(windows, localTime("2024-01-10 09:00")), {
+		start: localTime("2024-01-10 09:00"),
+		end: localTime("2024-01-10 17:00"),
+	});
+	assert.equal(quietHoursAt(windows, localTime("2024-01-10 17:00")), null);
+});
+
+test("quietHoursAt finds windows which end on the next day", () => {
+	// Wednesday nights only
+	const windows = [ { start: "23:00", end: "07:00", days: [ 3 ] } ];
+	const expected = {
+		start: localTime("2024-01-10 23:00"),
+		end: localTime("2024-01-11 07:00"),
+	};
+
+	assert.equal(quietHoursAt(windows, localTime("2024-01-10 22:59")), null);
+	assert.deepEqual(quietHoursAt(windows, localTime("2024-01-10 23:30")), expected);
+	assert.deepEqual(quietHoursAt(windows, localTime("2024-01-11 06:59")), expected);
+	assert.equal(quietHoursAt(windows, localTime("2024-01-11 07:00")), null);
+
+	// Thursday night is not quiet
+	assert.equal(quietHoursAt(windows, localTime("2024-01-11 23:30")), null);
+});
+
+test("quietHoursAt treats equal start and end times as a whole day", () => {
+	const windows = [ { start: "12:00", end: "12:00", days: [ 3 ] } ];
+
+	assert.deepEqual(quietHoursAt(windows, localTime("2024-01-11 11:59")), {
+		start: localTime("2024-01-10 12:00"),
+		end: localTime("2024-01-11 12:00"),
+	});
+});
+
+test("quietHoursAt returns the overlapping window which ends last", () => {
+	const windows = [
+		{ start: "20:00", end: "23:00", days: [ 3 ] },
+		{ start: "22:00", end: "02:00", days: [ 3 ] },
+	];
+
+	assert.deepEqual(quietHoursAt(windows, localTime("2024-01-10 22:30")), {
+		start: localTime("2024-01-10 22:00"),
+		end: localTime("2024-01-11 02:00"),
+	});
+});
+
+test("quietHoursAt is null without windows", () => {
+	assert.equal(quietHoursAt([], localTime("2024-01-10 12:00")), null);
+});
+
+test("nextQuietHoursStart finds the next window, or the current time during quiet hours", () => {
+	const windows = [ { start: "23:00", end: "07:00", days: [ 5 ] } ];
+
+	assert.equal(nextQuietHoursStart(windows, localTime("2024-01-10 12:00")), localTime("2024-01-12 23:00"));
+	assert.equal(nextQuietHoursStart(windows, localTime("2024-01-13 01:00")), localTime("2024-01-13 01:00"));
+	assert.equal(nextQuietHoursStart([], localTime("2024-01-10 12:00")), null);
+});
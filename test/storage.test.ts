@@ -0,0 +1,261 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import winston from "winston";
+
+import { CBotConfig, VMConfig } from "../config";
+import { VMPowerState } from "../compute";
+import { connectBotDB, BotDB, BootRequestStage, PowerRequestData, SaveConflictError, DISCORD_CTRL_TXT_MSG } from "../storage";
+
+/**
+ * Open an in-memory SQLite database.
+ * @returns The database and the configuration of a virtual machine named "minecraft".
+ */
+async function testDB(): Promise<{ db: BotDB, vmCfg: VMConfig }> {
+	const cfg = await CBotConfig.parseAsync({
+		storage: "sqlite",
+		sqlite: {
+			file: ":memory:",
+		},
+		discord: {
+			applicationID: "123456789012345678",
+			botToken: "token",
+		},
+		vms: [
+			{
+				provider: "simulator",
+				friendlyName: "minecraft",
+			},
+		],
+	});
+	const log = winston.createLogger({
+		transports: [
+			new winston.transports.Console({ silent: true }),
+		],
+	});
+
+	return {
+		db: await connectBotDB(cfg, log),
+		vmCfg: cfg.vms[0],
+	};
+}
+
+/**
+ * Build a power request.
+ * @param vmCfg The virtual machine.
+ * @param msgID ID of the power request's control message.
+ * @param targetPower The power state the power request is trying to reach.
+ * @param stage The power request's current stage.
+ * @param [successTime] Unix time when the power request succeeded, if stage is "success".
+ * @returns Power request data.
+ */
+function powerRequest(vmCfg: VMConfig, msgID: string, targetPower: VMPowerState, stage: string, successTime?: number): PowerRequestData {
+	const data: PowerRequestData = {
+		ctrl_msg_id: {
+			ctrl_type: DISCORD_CTRL_TXT_MSG,
+			location: {
+				guildID: "123456789012345678",
+				channelID: "223456789012345678",
+			},
+			msgID,
+		},
+		vm_cfg: vmCfg,
+		target_power: targetPower,
+		requester: null,
+		stage: {
+			current: stage,
+			flip_flop: true,
+			requested: {
+				time: 0,
+			},
+		},
+	};
+	if (successTime !== undefined) {
+		data.stage.in_progress = {
+			time: successTime - 1000,
+			start_power: targetPower === VMPowerState.Running ? VMPowerState.Deallocated : VMPowerState.Running,
+		};
+		data.stage.success = {
+			time: successTime,
+		};
+	}
+
+	return data;
+}
+
+test("power requests are updated by ID, or by control message if they have no ID", async () => {
+	const { db, vmCfg } = await testDB();
+
+	try {
+		const data = powerRequest(vmCfg, "1", VMPowerState.Running, "requested");
+		const id = await db.power_requests.save(data);
+		assert.deepEqual(await db.power_requests.get(id), { ...data, _id: id });
+
+		// Saved again without an ID, like a new PowerRequest for the same interaction
+		assert.equal(await db.power_requests.save(powerRequest(vmCfg, "1", VMPowerState.Running, "in_progress")), id);
+		assert.equal((await db.power_requests.getByCtrlMsg(data.ctrl_msg_id)).stage.current, "in_progress");
+
+		// Moving the control message is saved too
+		const moved = await db.power_requests.get(id);
+		moved.ctrl_msg_id = powerRequest(vmCfg, "2", VMPowerState.Running, "in_progress").ctrl_msg_id;
+		assert.equal(await db.power_requests.save(moved), id);
+		assert.equal((await db.power_requests.getByCtrlMsg(moved.ctrl_msg_id))._id, id);
+		assert.equal(await db.power_requests.getByCtrlMsg(data.ctrl_msg_id), null);
+
+		assert.equal(await db.power_requests.get("999"), null);
+	} finally {
+		await db.close();
+	}
+});
+
+test("ongoing power requests are found by stage and virtual machine", async () => {
+	const { db, vmCfg } = await testDB();
+	const otherVMCfg = { ...vmCfg, friendlyName: "valheim" };
+
+	try {
+		await db.power_requests.save(powerRequest(vmCfg, "1", VMPowerState.Running, "success", 1000));
+		const requestedID = await db.power_requests.save(powerRequest(vmCfg, "2", VMPowerState.Deallocated, "requested"));
+		const inProgressID = await db.power_requests.save(powerRequest(otherVMCfg, "3", VMPowerState.Running, "in_progress"));
+
+		assert.deepEqual((await db.power_requests.listOngoing()).map((data) => data._id).sort(), [ requestedID, inProgressID ].sort());
+		assert.equal((await db.power_requests.findOngoingByVM("minecraft"))._id, requestedID);
+		assert.equal(await db.power_requests.findOngoingByVM("terraria"), null);
+
+		// Only power requests which started changing the virtual machine count as in progress
+		assert.equal(await db.power_requests.countInProgressByVM("minecraft"), 0);
+		assert.equal(await db.power_requests.countInProgressByVM("valheim"), 1);
+	} finally {
+		await db.close();
+	}
+});
+
+test("successful power requests are found by time", async () => {
+	const { db, vmCfg } = await testDB();
+
+	try {
+		await db.power_requests.save(powerRequest(vmCfg, "1", VMPowerState.Running, "success", 1000));
+		await db.power_requests.save(powerRequest(vmCfg, "2", VMPowerState.Deallocated, "success", 2000));
+		await db.power_requests.save(powerRequest(vmCfg, "3", VMPowerState.Running, "success", 3000));
+		await db.power_requests.save(powerRequest(vmCfg, "4", VMPowerState.Deallocated, "error"));
+
+		assert.equal(await db.power_requests.countShutdownsSince("minecraft", 1000), 1);
+		assert.equal(await db.power_requests.countShutdownsSince("minecraft", 2000), 0);
+
+		assert.deepEqual((await db.power_requests.listSuccessesBetween("minecraft", 1000, 3000)).map((data) => data.stage.success.time), [ 1000, 2000 ]);
+		assert.equal((await db.power_requests.findLastSuccessBefore("minecraft", 3000)).stage.success.time, 2000);
+		assert.equal(await db.power_requests.findLastSuccessBefore("minecraft", 1000), null);
+
+		const recentStarts = await db.power_requests.listRecentSuccesses("minecraft", VMPowerState.Deallocated, 10);
+		assert.deepEqual(recentStarts.map((data) => data.stage.success.time), [ 3000, 1000 ]);
+	} finally {
+		await db.close();
+	}
+});
+
+test("boot requests are ongoing from when they start booting until they end", async () => {
+	const { db, vmCfg } = await testDB();
+
+	try {
+		const id = await db.boot_requests.save({
+			vm_cfg: vmCfg,
+			follow_up_location: {
+				guildID: "123456789012345678",
+				channelID: "223456789012345678",
+			},
+			requester_user_id: "323456789012345678",
+			stage: {
+				current: BootRequestStage.Requested,
+				requested: {},
+			},
+		});
+		assert.equal(await db.boot_requests.findOngoingByVM("minecraft"), null);
+
+		const data = await db.boot_requests.get(id);
+		data.stage.current = BootRequestStage.Booting;
+		data.stage.booting = {
+			power_request_id: "1",
+		};
+		assert.equal(await db.boot_requests.save(data), id);
+		assert.equal((await db.boot_requests.findOngoingByVM("minecraft"))._id, id);
+		assert.equal((await db.boot_requests.listOngoing()).length, 1);
+
+		data.stage.current = BootRequestStage.Success;
+		await db.boot_requests.save(data);
+		assert.equal(await db.boot_requests.findOngoingByVM("minecraft"), null);
+		assert.deepEqual(await db.boot_requests.listOngoing(), []);
+	} finally {
+		await db.close();
+	}
+});
+
+test("requests are only saved if no one else saved them since they were loaded", async () => {
+	const { db, vmCfg } = await testDB();
+
+	try {
+		const powerID = await db.power_requests.save(powerRequest(vmCfg, "1", VMPowerState.Running, "requested"));
+		const powerA = await db.power_requests.get(powerID);
+		const powerB = await db.power_requests.get(powerID);
+		assert.equal(powerA.version, 1);
+
+		powerA.stage.current = "cancelled";
+		await db.power_requests.save(powerA);
+		assert.equal(powerA.version, 2);
+
+		powerB.stage.current = "in_progress";
+		await assert.rejects(db.power_requests.save(powerB), SaveConflictError);
+		assert.equal((await db.power_requests.get(powerID)).stage.current, "cancelled");
+
+		// Saving by control message doesn't check the version, but still increments it
+		await db.power_requests.save(powerRequest(vmCfg, "1", VMPowerState.Running, "requested"));
+		assert.equal((await db.power_requests.get(powerID)).version, 3);
+
+		const bootID = await db.boot_requests.save({
+			vm_cfg: vmCfg,
+			follow_up_location: {
+				guildID: "123456789012345678",
+				channelID: "223456789012345678",
+			},
+			requester_user_id: "323456789012345678",
+			stage: {
+				current: BootRequestStage.Requested,
+				requested: {},
+			},
+		});
+		const bootA = await db.boot_requests.get(bootID);
+		const bootB = await db.boot_requests.get(bootID);
+
+		await db.boot_requests.save(bootA);
+		await assert.rejects(db.boot_requests.save(bootB), SaveConflictError);
+		assert.equal(await db.boot_requests.save(bootA), bootID);
+		assert.equal((await db.boot_requests.get(bootID)).version, 3);
+	} finally {
+		await db.close();
+	}
+});
+
+test("leases are held by one holder until they expire or are released", async () => {
+	const { db } = await testDB();
+
+	try {
+		assert.equal(await db.leases.acquire("poll", "a", 1000, 2000), true);
+		assert.equal(await db.leases.acquire("poll", "b", 1500, 2500), false);
+
+		// The holder can renew it
+		assert.equal(await db.leases.acquire("poll", "a", 1500, 3000), true);
+		assert.equal(await db.leases.acquire("poll", "b", 2500, 3500), false);
+
+		// Anyone can take it once it expires
+		assert.equal(await db.leases.acquire("poll", "b", 3000, 4000), true);
+		assert.equal(await db.leases.acquire("poll", "a", 3500, 4500), false);
+
+		// Releasing only works for the holder
+		await db.leases.release("poll", "a");
+		assert.equal(await db.leases.acquire("poll", "a", 3500, 4500), false);
+		await db.leases.release("poll", "b");
+		assert.equal(await db.leases.acquire("poll", "a", 3500, 4500), true);
+
+		// Leases with different names are independent
+		assert.equal(await db.leases.acquire("other", "b", 3500, 4500), true);
+	} finally {
+		await db.close();
+	}
+});
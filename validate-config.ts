@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+import { loadConfig, configIssues } from "./config";
+
+/**
+ * Check a configuration file without starting the bot. Prints each problem with the JSON path of the field it was found in, and exits with a non-zero code if the configuration is invalid.
+ */
+async function main() {
+	// Use the same file as the bot unless one is given
+	let path = process.argv[2];
+	if (path === undefined) {
+		path = process.env.DISCORD_AZURE_BOOT_CONFIG_FILE;
+	}
+	if (path === undefined) {
+		throw new Error("pass the path of a configuration file as an argument or set the DISCORD_AZURE_BOOT_CONFIG_FILE env var");
+	}
+
+	try {
+		const cfg = await loadConfig(path);
+		console.log(`${path} is valid, it configures ${cfg.vms.length} virtual machine(s)`);
+	} catch (e) {
+		if (e instanceof z.ZodError) {
+			console.error(`${path} is invalid:`);
+			configIssues(e).forEach((issue) => console.error(`  ${issue}`));
+			process.exitCode = 1;
+			return;
+		}
+
+		throw e;
+	}
+}
+
+main()
+	.catch((e) => {
+		console.error(`failed to validate configuration: ${e}`);
+		process.exitCode = 1;
+	});